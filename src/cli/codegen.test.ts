@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { validateEvent } from '../schema';
+import { generateTypes, parsePlan, toEventDataSchema } from './codegen';
+
+const plan = parsePlan({
+  events: {
+    signup: {
+      properties: {
+        plan: { type: 'string', enum: ['free', 'pro'] },
+        seats: { type: 'number', enum: [1, 5], required: false },
+        tags: 'array?',
+      },
+    },
+  },
+});
+const schema = { signup: toEventDataSchema(plan.events[0]) };
+
+describe('tracking plan enums', () => {
+  it('accepts the allowed values', () => {
+    expect(validateEvent(schema, 'signup', { plan: 'pro', seats: 5, tags: ['a'] })).toEqual([]);
+  });
+
+  it('reports values outside the enum', () => {
+    expect(validateEvent(schema, 'signup', { plan: 'enterprise', seats: 2 })).toEqual([
+      'Event "signup" property "plan" should be one of "free", "pro", got "enterprise"',
+      'Event "signup" property "seats" should be one of 1, 5, got 2',
+    ]);
+  });
+
+  it('emits the allowed values in the runtime schema', () => {
+    const source = generateTypes(plan, {
+      importSource: '@entrolytics/nextjs',
+      sourceName: 'plan.yaml',
+    });
+
+    expect(source).toContain(
+      "signup: { plan: { type: 'string', enum: ['free', 'pro'] }, seats: { type: 'number', enum: [1, 5], optional: true }, tags: 'array?' },",
+    );
+  });
+
+  it('rejects enum values of another type', () => {
+    expect(() =>
+      parsePlan({
+        events: { signup: { properties: { plan: { type: 'string', enum: ['free', 1] } } } },
+      }),
+    ).toThrow('Event "signup" property "plan" enum value 1 is not a string');
+  });
+
+  it('rejects enums on object and array properties', () => {
+    expect(() =>
+      parsePlan({ events: { signup: { properties: { tags: { type: 'array', enum: ['a'] } } } } }),
+    ).toThrow('enum is only supported for string, number and boolean');
+  });
+});
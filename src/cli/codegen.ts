@@ -0,0 +1,268 @@
+import type { EventDataSchema, PropertyType } from '../types';
+
+const PROPERTY_TYPES: PropertyType[] = ['string', 'number', 'boolean', 'object', 'array'];
+
+export interface PlanProperty {
+  type: PropertyType;
+  required: boolean;
+  description?: string;
+  /** Allowed values, narrowing the generated type to a union */
+  enum?: (string | number | boolean)[];
+}
+
+export interface PlanEvent {
+  name: string;
+  description?: string;
+  properties: Record<string, PlanProperty>;
+}
+
+export interface TrackingPlan {
+  events: PlanEvent[];
+}
+
+export interface GenerateTypesOptions {
+  /** Module the generated file imports the validator from */
+  importSource: string;
+  /** Plan file name mentioned in the header comment */
+  sourceName: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseProperty(event: string, key: string, raw: unknown): PlanProperty {
+  // Shorthand: `plan: string` or `trial: boolean?`
+  if (typeof raw === 'string') {
+    const optional = raw.endsWith('?');
+    return parseProperty(event, key, {
+      type: optional ? raw.slice(0, -1) : raw,
+      required: !optional,
+    });
+  }
+
+  if (!isRecord(raw)) {
+    throw new Error(`Event "${event}" property "${key}" must be a type name or an object`);
+  }
+
+  const type = raw.type as PropertyType;
+  if (!PROPERTY_TYPES.includes(type)) {
+    throw new Error(
+      `Event "${event}" property "${key}" has unknown type "${String(raw.type)}", expected one of ${PROPERTY_TYPES.join(', ')}`,
+    );
+  }
+
+  if (raw.enum !== undefined) {
+    if (!Array.isArray(raw.enum) || raw.enum.length === 0) {
+      throw new Error(`Event "${event}" property "${key}" enum must be a non-empty list`);
+    }
+    if (type === 'object' || type === 'array') {
+      throw new Error(
+        `Event "${event}" property "${key}" enum is only supported for string, number and boolean`,
+      );
+    }
+    const invalid = raw.enum.find(value => typeof value !== type);
+    if (invalid !== undefined) {
+      throw new Error(
+        `Event "${event}" property "${key}" enum value ${JSON.stringify(invalid)} is not a ${type}`,
+      );
+    }
+  }
+
+  return {
+    type,
+    required: raw.required !== false,
+    ...(typeof raw.description === 'string' && { description: raw.description }),
+    ...(Array.isArray(raw.enum) && { enum: raw.enum as PlanProperty['enum'] }),
+  };
+}
+
+/**
+ * Validate a parsed JSON or YAML tracking plan and normalize property shorthands.
+ *
+ * @example
+ * ```yaml
+ * events:
+ *   signup:
+ *     description: Account created
+ *     properties:
+ *       plan: { type: string, enum: [free, pro], description: Selected plan }
+ *       trial: boolean?
+ *   logout: {}
+ * ```
+ */
+export function parsePlan(raw: unknown): TrackingPlan {
+  if (!isRecord(raw) || !isRecord(raw.events)) {
+    throw new Error('Tracking plan must have an "events" map');
+  }
+
+  const events = Object.entries(raw.events).map(([name, value]): PlanEvent => {
+    const event = value ?? {};
+    if (!isRecord(event)) throw new Error(`Event "${name}" must be an object`);
+
+    const properties = event.properties ?? {};
+    if (!isRecord(properties)) throw new Error(`Event "${name}" properties must be a map`);
+
+    return {
+      name,
+      ...(typeof event.description === 'string' && { description: event.description }),
+      properties: Object.fromEntries(
+        Object.entries(properties).map(([key, property]) => [
+          key,
+          parseProperty(name, key, property),
+        ]),
+      ),
+    };
+  });
+
+  return { events };
+}
+
+function toLiteral(value: string | number | boolean): string {
+  return typeof value === 'string'
+    ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+    : String(value);
+}
+
+function toKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : toLiteral(key);
+}
+
+function toDocComment(text: string | undefined, indent: string): string {
+  return text ? `${indent}/** ${text.replace(/\*\//g, '*\\/')} */\n` : '';
+}
+
+function toTsType(property: PlanProperty): string {
+  if (property.enum) {
+    return property.enum.map(toLiteral).join(' | ');
+  }
+
+  switch (property.type) {
+    case 'object':
+      return 'Record<string, unknown>';
+    case 'array':
+      return 'unknown[]';
+    default:
+      return property.type;
+  }
+}
+
+export function toEventDataSchema(event: PlanEvent): EventDataSchema {
+  return Object.fromEntries(
+    Object.entries(event.properties).map(([key, { type, required, enum: allowed }]) => {
+      // Allowed values need the object form so validateEvent can check them
+      if (allowed) return [key, { type, enum: allowed, ...(!required && { optional: true }) }];
+      return [key, required ? type : (`${type}?` as const)];
+    }),
+  );
+}
+
+function toSchemaValue(declared: EventDataSchema[string]): string {
+  if (typeof declared === 'string') return toLiteral(declared);
+
+  const optional = declared.optional ? ', optional: true' : '';
+  return `{ type: ${toLiteral(declared.type)}, enum: [${declared.enum.map(toLiteral).join(', ')}]${optional} }`;
+}
+
+/**
+ * Emit the event map for `createEntrolytics`, the runtime schema for `eventSchema`
+ * and a validator for `beforeSend` or development checks.
+ */
+export function generateTypes(plan: TrackingPlan, options: GenerateTypesOptions): string {
+  const { importSource, sourceName } = options;
+
+  const eventTypes = plan.events
+    .map(event => {
+      const entries = Object.entries(event.properties);
+      const doc = toDocComment(event.description, '  ');
+
+      if (entries.length === 0) return `${doc}  ${toKey(event.name)}: undefined;`;
+
+      const fields = entries
+        .map(
+          ([key, property]) =>
+            `${toDocComment(property.description, '    ')}    ${toKey(key)}${property.required ? '' : '?'}: ${toTsType(property)};`,
+        )
+        .join('\n');
+
+      // Events whose properties are all optional may be tracked without data
+      const optional = entries.every(([, property]) => !property.required) ? ' | undefined' : '';
+      return `${doc}  ${toKey(event.name)}: {\n${fields}\n  }${optional};`;
+    })
+    .join('\n');
+
+  const schema = plan.events
+    .map(event => {
+      const fields = Object.entries(toEventDataSchema(event)).map(
+        ([key, declared]) => `${toKey(key)}: ${toSchemaValue(declared)}`,
+      );
+      return `  ${toKey(event.name)}: ${fields.length > 0 ? `{ ${fields.join(', ')} }` : '{}'},`;
+    })
+    .join('\n');
+
+  return `// Generated by entrolytics-nextjs codegen from ${sourceName}. Do not edit.
+import { type EventSchema, validateEvent } from '${importSource}';
+
+export type TrackingPlanEvents = {
+${eventTypes}
+};
+
+export const trackingPlanSchema: EventSchema<TrackingPlanEvents> = {
+${schema}
+};
+
+export type TrackingPlanEventName = keyof TrackingPlanEvents;
+
+/**
+ * Returns a description of every way an event differs from the tracking plan,
+ * including unplanned events and properties of the wrong type or value.
+ */
+export function validateTrackingPlan(name: string, data?: Record<string, unknown>): string[] {
+  return validateEvent(trackingPlanSchema, name, data);
+}
+`;
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/**
+ * Emit a markdown catalog of every planned event and its properties.
+ */
+export function generateCatalog(plan: TrackingPlan, sourceName: string): string {
+  const sections = plan.events.map(event => {
+    const lines = [`## \`${event.name}\``, ''];
+    if (event.description) lines.push(event.description, '');
+
+    const entries = Object.entries(event.properties);
+    if (entries.length === 0) {
+      lines.push('No properties.', '');
+      return lines.join('\n');
+    }
+
+    lines.push('| Property | Type | Required | Description |', '| --- | --- | --- | --- |');
+    for (const [key, property] of entries) {
+      const type = property.enum
+        ? property.enum.map(value => `\`${JSON.stringify(value)}\``).join(', ')
+        : property.type;
+      lines.push(
+        `| \`${key}\` | ${escapeCell(type)} | ${property.required ? 'Yes' : 'No'} | ${escapeCell(property.description ?? '')} |`,
+      );
+    }
+    lines.push('');
+    return lines.join('\n');
+  });
+
+  return [
+    '# Tracking Plan',
+    '',
+    `Generated by entrolytics-nextjs codegen from ${sourceName}. Do not edit.`,
+    '',
+    `${plan.events.length} events.`,
+    '',
+    ...sections,
+  ]
+    .join('\n')
+    .replace(/\n+$/, '\n');
+}
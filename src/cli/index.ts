@@ -0,0 +1,73 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { generateCatalog, generateTypes, parsePlan } from './codegen';
+
+const USAGE = `Usage: entrolytics-nextjs codegen <plan.yaml|plan.json> [options]
+
+Generates typed event definitions, a runtime validator and a markdown catalog
+from a tracking plan.
+
+Options:
+  --out <dir>        Output directory (default: the plan's directory)
+  --name <name>      Base name of the generated files (default: tracking-plan)
+  --import <module>  Module the generated code imports from (default: @entrolytics/nextjs-sdk)
+  -h, --help         Show this help
+`;
+
+async function loadPlan(file: string): Promise<unknown> {
+  const source = await readFile(file, 'utf8');
+  if (extname(file).toLowerCase() === '.json') return JSON.parse(source);
+
+  let yaml: typeof import('yaml');
+  try {
+    yaml = await import('yaml');
+  } catch {
+    throw new Error('Reading YAML tracking plans requires the "yaml" package: npm install -D yaml');
+  }
+  return yaml.parse(source);
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string' },
+      name: { type: 'string', default: 'tracking-plan' },
+      import: { type: 'string', default: '@entrolytics/nextjs-sdk' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [command, planFile] = positionals;
+  if (values.help || command !== 'codegen' || !planFile) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const planPath = resolve(planFile);
+  const plan = parsePlan(await loadPlan(planPath));
+  const outDir = resolve(values.out ?? dirname(planPath));
+  const sourceName = basename(planPath);
+
+  await mkdir(outDir, { recursive: true });
+
+  const typesFile = join(outDir, `${values.name}.ts`);
+  const catalogFile = join(outDir, `${values.name}.md`);
+  await writeFile(typesFile, generateTypes(plan, { importSource: values.import, sourceName }));
+  await writeFile(catalogFile, generateCatalog(plan, sourceName));
+
+  console.log(`Generated ${plan.events.length} events:\n  ${typesFile}\n  ${catalogFile}`);
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    console.error(`[Entrolytics] ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  },
+);
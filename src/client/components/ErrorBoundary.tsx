@@ -0,0 +1,66 @@
+'use client';
+
+import { Component, type ContextType, type ErrorInfo, type ReactNode } from 'react';
+import type { EntrolyticsErrorBoundaryProps } from '../../types';
+import { EntrolyticsContext } from '../context';
+import { normalizeStack } from '../errors';
+
+interface ErrorBoundaryState {
+  error: Error | null;
+}
+
+/**
+ * Error boundary that reports render errors as `js_error` events with the React
+ * component stack, then renders the fallback.
+ *
+ * @example
+ * ```tsx
+ * <EntrolyticsErrorBoundary fallback={<p>Something went wrong.</p>}>
+ *   <Checkout />
+ * </EntrolyticsErrorBoundary>
+ *
+ * // Let the visitor retry
+ * <EntrolyticsErrorBoundary
+ *   fallback={(error, reset) => <button onClick={reset}>Try again</button>}
+ *   data={{ area: 'checkout' }}
+ * >
+ *   <Checkout />
+ * </EntrolyticsErrorBoundary>
+ * ```
+ */
+export class EntrolyticsErrorBoundary extends Component<
+  EntrolyticsErrorBoundaryProps,
+  ErrorBoundaryState
+> {
+  static contextType = EntrolyticsContext;
+  declare context: ContextType<typeof EntrolyticsContext>;
+
+  state: ErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): ErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo): void {
+    const componentStack = info.componentStack ? normalizeStack(info.componentStack) : undefined;
+
+    void this.context?.trackError(error, {
+      ...this.props.data,
+      source: 'boundary',
+      ...(componentStack && { componentStack }),
+    });
+    this.props.onError?.(error, componentStack);
+  }
+
+  reset = (): void => {
+    this.setState({ error: null });
+  };
+
+  render(): ReactNode {
+    const { error } = this.state;
+    if (!error) return this.props.children;
+
+    const { fallback = null } = this.props;
+    return typeof fallback === 'function' ? fallback(error, this.reset) : fallback;
+  }
+}
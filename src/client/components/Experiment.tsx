@@ -0,0 +1,41 @@
+'use client';
+
+import React, { Children, isValidElement, type ReactElement } from 'react';
+import type { ExperimentProps, VariantProps } from '../../types';
+import { useExperiment } from '../hooks/useExperiment';
+
+/**
+ * One variant of an `Experiment`, rendered only when the visitor is assigned to it.
+ */
+export function Variant({ children }: VariantProps) {
+  return <>{children}</>;
+}
+
+/**
+ * Render the visitor's variant out of its `Variant` children and send the
+ * `$experiment_exposure` event for it, like `useExperiment`.
+ *
+ * @example
+ * ```tsx
+ * <Experiment name="pricing-layout" weights={[50, 50]} fallback={<PricingSkeleton />}>
+ *   <Variant name="control">
+ *     <PricingTable />
+ *   </Variant>
+ *   <Variant name="cards">
+ *     <PricingCards />
+ *   </Variant>
+ * </Experiment>
+ * ```
+ */
+export function Experiment({ name, weights, fallback = null, children }: ExperimentProps) {
+  const options = Children.toArray(children).filter(
+    (child): child is ReactElement<VariantProps> => isValidElement(child) && child.type === Variant,
+  );
+  const variant = useExperiment(name, {
+    variants: options.map(option => option.props.name),
+    weights,
+  });
+
+  const selected = options.find(option => option.props.name === variant);
+  return <>{selected ?? fallback}</>;
+}
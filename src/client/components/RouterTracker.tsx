@@ -0,0 +1,43 @@
+'use client';
+
+import { usePathname, useSearchParams } from 'next/navigation';
+import React, { Suspense, useEffect } from 'react';
+
+export interface RouterAdapterProps {
+  /** Called once a router is detected, so the history fallback can stand down */
+  onAttach: () => void;
+  /** Called after each committed navigation, with the route template when the router knows it */
+  onNavigate: (route?: string) => void;
+}
+
+function RouterListener({ onAttach, onNavigate }: RouterAdapterProps) {
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const search = searchParams?.toString();
+  // Outside a Next.js router both hooks return null
+  const attached = pathname !== null;
+  const route = attached && search ? `${pathname}?${search}` : pathname;
+
+  useEffect(() => {
+    if (attached) onAttach();
+  }, [attached, onAttach]);
+
+  useEffect(() => {
+    if (route !== null) onNavigate();
+  }, [route, onNavigate]);
+
+  return null;
+}
+
+/**
+ * Reports App Router navigations from `usePathname` and `useSearchParams`. The
+ * Suspense boundary keeps `useSearchParams` from opting static pages out of
+ * prerendering.
+ */
+export function RouterTracker(props: RouterAdapterProps) {
+  return (
+    <Suspense fallback={null}>
+      <RouterListener {...props} />
+    </Suspense>
+  );
+}
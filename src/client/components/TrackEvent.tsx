@@ -9,7 +9,7 @@ import {
   useEffect,
   useRef,
 } from 'react';
-import type { TrackEventProps } from '../../types';
+import type { DefaultEventMap, EventMap, EventName, TrackEventProps } from '../../types';
 import { useEntrolytics } from '../hooks/useEntrolytics';
 
 /**
@@ -33,14 +33,10 @@ import { useEntrolytics } from '../hooks/useEntrolytics';
  * </TrackEvent>
  * ```
  */
-export function TrackEvent({
-  name,
-  data,
-  trigger = 'click',
-  once = false,
-  children,
-  className,
-}: TrackEventProps) {
+export function TrackEvent<
+  E extends EventMap = DefaultEventMap,
+  K extends EventName<E> = EventName<E>,
+>({ name, data, trigger = 'click', once = false, children, className }: TrackEventProps<E, K>) {
   const { track, isReady } = useEntrolytics();
   const elementRef = useRef<HTMLElement>(null);
   const hasTrackedRef = useRef(false);
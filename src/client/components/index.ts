@@ -1,4 +1,6 @@
 export { Analytics } from './Analytics';
+export { EntrolyticsErrorBoundary } from './ErrorBoundary';
+export { Experiment, Variant } from './Experiment';
 export { OutboundLink } from './OutboundLink';
 export { Script } from './Script';
 export { TrackEvent } from './TrackEvent';
@@ -0,0 +1,84 @@
+import type {
+  ConsentCategory,
+  ConsentState,
+  ConsentStatus,
+  EventPayload,
+  IdentifyPayload,
+} from '../types';
+
+const CONSENT_KEY = '__entro_consent';
+const CONSENT_STATUSES: ConsentStatus[] = ['pending', 'granted', 'denied'];
+
+export const CONSENT_CATEGORIES: ConsentCategory[] = ['analytics', 'marketing'];
+
+function isConsentStatus(value: unknown): value is ConsentStatus {
+  return typeof value === 'string' && CONSENT_STATUSES.includes(value as ConsentStatus);
+}
+
+/**
+ * Normalize a single status or a per-category map into a full consent state.
+ * Categories missing from a partial map keep their value from `base`.
+ */
+export function resolveConsent(
+  value: ConsentStatus | Partial<ConsentState> | undefined,
+  base: ConsentState,
+): ConsentState {
+  if (value === undefined) return base;
+
+  if (isConsentStatus(value)) {
+    return { analytics: value, marketing: value };
+  }
+
+  const next = { ...base };
+  for (const category of CONSENT_CATEGORIES) {
+    const status = value[category];
+    if (isConsentStatus(status)) next[category] = status;
+  }
+  return next;
+}
+
+/**
+ * The categories a consent value grants or denies. Pending categories are left out
+ * so a stored decision can fill them in.
+ */
+export function decidedConsent(
+  value: ConsentStatus | Partial<ConsentState> | undefined,
+): Partial<ConsentState> {
+  const resolved = resolveConsent(value, { analytics: 'pending', marketing: 'pending' });
+  return Object.fromEntries(
+    CONSENT_CATEGORIES.filter(category => resolved[category] !== 'pending').map(category => [
+      category,
+      resolved[category],
+    ]),
+  );
+}
+
+export function loadStoredConsent(): Partial<ConsentState> | undefined {
+  if (typeof window === 'undefined') return undefined;
+
+  try {
+    const raw = window.localStorage.getItem(CONSENT_KEY);
+    return raw ? (JSON.parse(raw) as Partial<ConsentState>) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function storeConsent(consent: ConsentState): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(CONSENT_KEY, JSON.stringify(consent));
+  } catch {
+    // Storage unavailable, consent only lasts for this page
+  }
+}
+
+/**
+ * Revenue data is gated by marketing consent, everything else by analytics consent.
+ */
+export function getConsentCategory(payload: EventPayload | IdentifyPayload): ConsentCategory {
+  const data = payload.data;
+  if (data && typeof data === 'object' && 'revenue' in data) return 'marketing';
+  return 'analytics';
+}
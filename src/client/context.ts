@@ -1,6 +1,11 @@
 'use client';
 
 import { createContext } from 'react';
-import type { EntrolyticsContextValue } from '../types';
+import type { EntrolyticsContextValue, EventData } from '../types';
 
 export const EntrolyticsContext = createContext<EntrolyticsContextValue | null>(null);
+
+/** Sends events from built-in trackers, which skip the tracking plan check. Internal */
+export const BuiltInTrackContext = createContext<
+  ((name: string, data: EventData) => Promise<void>) | null
+>(null);
@@ -0,0 +1,67 @@
+'use client';
+
+import type { ComponentProps } from 'react';
+import type {
+  EntrolyticsContextValue,
+  EventMap,
+  EventName,
+  EventSchema,
+  TrackEventProps,
+} from '../types';
+import { TrackEvent } from './components/TrackEvent';
+import { useEntrolytics } from './hooks/useEntrolytics';
+import {
+  type EventTrackerReturn,
+  type UseEventTrackerOptions,
+  useEventTracker,
+} from './hooks/useEventTracker';
+import { EntrolyticsProvider } from './provider';
+
+type ProviderProps<E extends EventMap> = Omit<
+  ComponentProps<typeof EntrolyticsProvider>,
+  'eventSchema'
+> & {
+  /** Tracking plan checked in development */
+  eventSchema?: EventSchema<E>;
+};
+
+export interface TypedEntrolytics<E extends EventMap> {
+  EntrolyticsProvider: (props: ProviderProps<E>) => ReturnType<typeof EntrolyticsProvider>;
+  useEntrolytics: (destination?: string) => EntrolyticsContextValue<E>;
+  useEventTracker: (options?: UseEventTrackerOptions<E>) => EventTrackerReturn<E>;
+  TrackEvent: <K extends EventName<E>>(
+    props: TrackEventProps<E, K>,
+  ) => ReturnType<typeof TrackEvent>;
+}
+
+/**
+ * Bind the provider, hooks and components to an event map so event names and their
+ * data are checked at compile time. The returned values are the regular exports,
+ * only their types are narrowed.
+ *
+ * @example
+ * ```tsx
+ * // lib/analytics.ts
+ * type Events = {
+ *   signup: { plan: 'free' | 'pro' };
+ *   'cta-click': { location: string };
+ *   logout: undefined;
+ * };
+ *
+ * export const { EntrolyticsProvider, useEntrolytics, useEventTracker, TrackEvent } =
+ *   createEntrolytics<Events>();
+ *
+ * // In a component
+ * const { track } = useEntrolytics();
+ * track('signup', { plan: 'pro' }); // ok
+ * track('sign-up'); // type error
+ * ```
+ */
+export function createEntrolytics<E extends EventMap>(): TypedEntrolytics<E> {
+  return {
+    EntrolyticsProvider,
+    useEntrolytics: useEntrolytics<E>,
+    useEventTracker: useEventTracker<E>,
+    TrackEvent,
+  } as TypedEntrolytics<E>;
+}
@@ -0,0 +1,54 @@
+export interface SessionDeduperOptions {
+  /** Whether seen keys are kept in sessionStorage, checked on every write */
+  persist: () => boolean;
+  /** Stop accepting new keys once this many were seen in a session */
+  limit?: number;
+}
+
+/** True the first time a key is seen in a session */
+export type SessionDeduper = (sessionId: string, key: string) => boolean;
+
+/**
+ * Returns a check that is true the first time a key is seen in a session. Seen keys
+ * survive reloads in sessionStorage under `storageKey` while `persist` returns true.
+ * Keys seen before the first session ID belong to the session that ID starts.
+ */
+export function createSessionDeduper(
+  storageKey: string,
+  options: SessionDeduperOptions,
+): SessionDeduper {
+  const { persist, limit = Number.POSITIVE_INFINITY } = options;
+  let session = '';
+  let seen = new Set<string>();
+
+  if (persist() && typeof window !== 'undefined') {
+    try {
+      const raw = window.sessionStorage.getItem(storageKey);
+      const stored = raw ? (JSON.parse(raw) as { session: string; seen: string[] }) : undefined;
+      if (stored) {
+        session = stored.session;
+        seen = new Set(stored.seen);
+      }
+    } catch {
+      // Storage unavailable or corrupt, start fresh
+    }
+  }
+
+  return (sessionId, key) => {
+    if (sessionId !== session) {
+      if (session) seen = new Set();
+      session = sessionId;
+    }
+    if (seen.has(key) || seen.size >= limit) return false;
+    seen.add(key);
+
+    if (persist()) {
+      try {
+        window.sessionStorage.setItem(storageKey, JSON.stringify({ session, seen: [...seen] }));
+      } catch {
+        // Storage unavailable, dedupe only lasts for this page
+      }
+    }
+    return true;
+  };
+}
@@ -0,0 +1,95 @@
+const INTERACTION_EVENTS = ['pointerdown', 'keydown', 'scroll', 'touchstart', 'mousemove'] as const;
+
+export interface EngagementTimerOptions {
+  /** Milliseconds after the last interaction that still count as engaged */
+  idleTimeout: number;
+  /** Milliseconds between heartbeats, 0 disables them */
+  heartbeatInterval: number;
+  /** Called on each heartbeat with the engaged time on the page so far */
+  onHeartbeat?: (engagedMs: number) => void;
+}
+
+export interface EngagementTimer {
+  /** Engaged milliseconds on the current page */
+  read: () => number;
+  /** Return the engaged time of the current page and start counting a new one */
+  reset: () => number;
+  /** Remove listeners and stop the heartbeat */
+  dispose: () => void;
+}
+
+/**
+ * Counts engaged time on a page: time while the tab is visible and the visitor
+ * interacted within the last `idleTimeout` milliseconds. Loading the page and
+ * returning to the tab count as interactions.
+ */
+export function createEngagementTimer(options: EngagementTimerOptions): EngagementTimer {
+  const { idleTimeout, heartbeatInterval, onHeartbeat } = options;
+
+  let engaged = 0;
+  let lastTick = Date.now();
+  let lastInteraction = lastTick;
+  let visible = document.visibilityState === 'visible';
+  let lastHeartbeat = 0;
+
+  // Add the engaged part of the time since the last tick
+  const accrue = (now: number) => {
+    if (visible) {
+      const end = Math.min(now, lastInteraction + idleTimeout);
+      if (end > lastTick) engaged += end - lastTick;
+    }
+    lastTick = now;
+  };
+
+  const handleInteraction = () => {
+    const now = Date.now();
+    accrue(now);
+    lastInteraction = now;
+  };
+
+  const handleVisibilityChange = () => {
+    const now = Date.now();
+    accrue(now);
+    visible = document.visibilityState === 'visible';
+    if (visible) lastInteraction = now;
+  };
+
+  const read = () => {
+    accrue(Date.now());
+    return engaged;
+  };
+
+  for (const type of INTERACTION_EVENTS) {
+    window.addEventListener(type, handleInteraction, { capture: true, passive: true });
+  }
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+
+  // Heartbeats are skipped while nothing new was counted
+  const timer =
+    heartbeatInterval > 0 && onHeartbeat
+      ? setInterval(() => {
+          const current = read();
+          if (current <= lastHeartbeat) return;
+          lastHeartbeat = current;
+          onHeartbeat(current);
+        }, heartbeatInterval)
+      : undefined;
+
+  return {
+    read,
+    reset() {
+      const total = read();
+      engaged = 0;
+      lastHeartbeat = 0;
+      lastInteraction = lastTick;
+      return total;
+    },
+    dispose() {
+      if (timer) clearInterval(timer);
+      for (const type of INTERACTION_EVENTS) {
+        window.removeEventListener(type, handleInteraction, { capture: true });
+      }
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    },
+  };
+}
@@ -0,0 +1,88 @@
+import { fnv1a } from '../hash';
+import { createSessionDeduper, type SessionDeduper } from './dedupe';
+
+const ERRORS_KEY = '__entro_errors';
+const MAX_STACK_FRAMES = 10;
+const MAX_SEEN_ERRORS = 100;
+
+export type ErrorSource = 'error' | 'unhandledrejection' | 'boundary' | 'manual';
+
+export interface NormalizedError {
+  message: string;
+  stack?: string;
+}
+
+/**
+ * Turn anything thrown or rejected into a message and optional stack.
+ */
+export function normalizeError(error: unknown): NormalizedError {
+  if (error instanceof Error) {
+    return { message: error.message || error.name, stack: error.stack };
+  }
+  if (typeof error === 'string') return { message: error };
+
+  try {
+    return { message: JSON.stringify(error) ?? String(error) };
+  } catch {
+    return { message: String(error) };
+  }
+}
+
+/**
+ * Reduce a stack trace to its top frames without origins, query strings, build
+ * hashes or line and column numbers, so the same bug reads the same on every
+ * page and browser.
+ */
+export function normalizeStack(stack: string): string {
+  return stack
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.startsWith('at ') || line.includes('@'))
+    .slice(0, MAX_STACK_FRAMES)
+    .map(line =>
+      line
+        .replace(/https?:\/\/[^/\s)]+/g, '')
+        .replace(/[?#][^\s):]*/g, '')
+        .replace(/[.-][0-9a-f]{8,}(?=\.m?js)/g, '')
+        .replace(/(:\d+){1,2}(?=\)?$)/, ''),
+    )
+    .join('\n');
+}
+
+export function fingerprintError(message: string, stack?: string): string {
+  return fnv1a(`${message}\n${stack ? normalizeStack(stack) : ''}`).toString(36);
+}
+
+/**
+ * Returns a check that is true the first time a fingerprint is seen in a session.
+ * Seen fingerprints survive reloads in sessionStorage unless `persist` is false.
+ */
+export function createErrorDeduper(persist: boolean): SessionDeduper {
+  return createSessionDeduper(ERRORS_KEY, { persist: () => persist, limit: MAX_SEEN_ERRORS });
+}
+
+/**
+ * Listen for uncaught errors and unhandled promise rejections on the window.
+ * Failed resource loads and opaque cross-origin "Script error." reports are ignored.
+ */
+export function captureGlobalErrors(
+  onError: (error: unknown, source: ErrorSource) => void,
+): () => void {
+  const handleError = (event: ErrorEvent) => {
+    if (!(event instanceof ErrorEvent) || (!event.error && !event.message)) return;
+    if (!event.error && event.message === 'Script error.') return;
+    onError(event.error ?? event.message, 'error');
+  };
+
+  const handleRejection = (event: PromiseRejectionEvent) => {
+    onError(event.reason, 'unhandledrejection');
+  };
+
+  window.addEventListener('error', handleError);
+  window.addEventListener('unhandledrejection', handleRejection);
+
+  return () => {
+    window.removeEventListener('error', handleError);
+    window.removeEventListener('unhandledrejection', handleRejection);
+  };
+}
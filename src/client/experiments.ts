@@ -0,0 +1,109 @@
+import {
+  assignVariant,
+  EXPERIMENT_COOKIE,
+  parseExperimentCookie,
+  parseVariantOverrides,
+} from '../experiments';
+import type { ExperimentConfig, StorageMode } from '../types';
+import { createSessionDeduper, type SessionDeduper } from './dedupe';
+import { getPendingVisitorId, readCookie, readVisitorId } from './identity';
+
+const ASSIGNMENTS_KEY = '__entro_variants';
+const EXPOSURES_KEY = '__entro_exposures';
+
+// Loaded once per page so render-time reads stay cheap and consistent
+let storedAssignments: Record<string, string> | undefined;
+// Variants computed this page, kept so every render agrees until they are stored
+const pageAssignments: Record<string, string> = {};
+let exposures: SessionDeduper | undefined;
+// Follows analytics consent, so exposures are only written once it is granted
+let persistExposures = false;
+
+function loadAssignments(storage: StorageMode): Record<string, string> {
+  if (storedAssignments) return storedAssignments;
+  storedAssignments = {};
+  if (storage === 'none') return storedAssignments;
+
+  try {
+    const raw = window.localStorage.getItem(ASSIGNMENTS_KEY);
+    if (raw) storedAssignments = JSON.parse(raw) as Record<string, string>;
+  } catch {
+    // Storage unavailable or corrupt, assign again
+  }
+  return storedAssignments;
+}
+
+/** The variant forced for an experiment by the `entro_variant` query parameter */
+export function readVariantOverride(key: string): string | undefined {
+  if (typeof window === 'undefined') return undefined;
+  return parseVariantOverrides(new URL(window.location.href).searchParams)[key];
+}
+
+/** Variants assigned at the edge by `withEntrolyticsExperiments`, by experiment key */
+export function readServerAssignments(): Record<string, string> {
+  return parseExperimentCookie(readCookie(EXPERIMENT_COOKIE));
+}
+
+/**
+ * The visitor's variant of an experiment, without writing anything so it can run
+ * during render and before consent. A query parameter override wins, then a variant
+ * the middleware assigned, then a stored assignment. Otherwise the visitor is
+ * bucketed by their stored visitor ID, or the pending ID that becomes their visitor
+ * ID once it is created.
+ */
+export function resolveVariant(
+  key: string,
+  config: ExperimentConfig,
+  storage: StorageMode,
+): string | undefined {
+  if (typeof window === 'undefined') return undefined;
+
+  const override = readVariantOverride(key);
+  if (override && config.variants.includes(override)) return override;
+
+  const assigned = readServerAssignments()[key];
+  if (assigned && config.variants.includes(assigned)) return assigned;
+
+  const stored = loadAssignments(storage)[key];
+  if (stored && config.variants.includes(stored)) return stored;
+
+  const computed = pageAssignments[key];
+  if (computed && config.variants.includes(computed)) return computed;
+
+  const variant = assignVariant(readVisitorId(storage) ?? getPendingVisitorId(), key, config);
+  if (variant) pageAssignments[key] = variant;
+  return variant;
+}
+
+/**
+ * Store an assignment so later weight changes do not move the visitor between
+ * variants. Call it from an effect once analytics consent is granted.
+ */
+export function persistVariant(key: string, variant: string, storage: StorageMode): void {
+  if (storage === 'none' || typeof window === 'undefined') return;
+
+  const stored = loadAssignments(storage);
+  if (stored[key] === variant) return;
+  stored[key] = variant;
+
+  try {
+    window.localStorage.setItem(ASSIGNMENTS_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage unavailable, the assignment still holds for this page
+  }
+}
+
+/**
+ * True the first time a variant is exposed in a session. Seen exposures survive
+ * reloads in sessionStorage unless `persist` is false.
+ */
+export function markExposure(
+  sessionId: string,
+  key: string,
+  variant: string,
+  persist: boolean,
+): boolean {
+  persistExposures = persist;
+  exposures ??= createSessionDeduper(EXPOSURES_KEY, { persist: () => persistExposures });
+  return exposures(sessionId, `${key}:${variant}`);
+}
@@ -0,0 +1,203 @@
+// Form controls that only change their own state without touching the DOM are left out
+const INTERACTIVE_SELECTOR =
+  'a[href], button, summary, [role="button"], [role="link"], [role="tab"], [role="menuitem"], [onclick], input[type="submit"], input[type="button"], input[type="reset"]';
+const MAX_SELECTOR_DEPTH = 5;
+const TEST_ATTRIBUTES = ['data-testid', 'data-test', 'data-cy'];
+
+export interface FrustrationDetectorOptions {
+  /** Clicks within the window and radius that count as a rage click */
+  rageClickCount: number;
+  /** Milliseconds the rage clicks must fall within */
+  rageClickWindow: number;
+  /** Maximum distance in pixels between rage clicks */
+  rageClickRadius: number;
+  /** Milliseconds to wait for a reaction before a click counts as dead, 0 disables dead clicks */
+  deadClickTimeout: number;
+  /** Requests to these URL prefixes do not count as a reaction, such as the collect endpoint */
+  ignoreRequests: string[];
+  onRageClick: (selector: string, clicks: number) => void;
+  onDeadClick: (selector: string) => void;
+}
+
+export interface FrustrationDetector {
+  /** Feed a click from the global listener */
+  handleClick: (event: MouseEvent) => void;
+  /** Record a reaction the detector cannot observe itself, such as a client-side navigation */
+  markActivity: () => void;
+  /** Stop observing and cancel pending checks */
+  dispose: () => void;
+}
+
+interface ClickRecord {
+  x: number;
+  y: number;
+  time: number;
+}
+
+// Generated IDs and CSS-in-JS class names change between builds or renders
+function isStableToken(value: string): boolean {
+  return (
+    !/\d{3,}|^:r|[-_][a-z0-9]*\d[a-z0-9]*$/i.test(value) && !/^(css|sc|jsx|emotion)-/.test(value)
+  );
+}
+
+/**
+ * Build a CSS selector for an element from IDs, test attributes, tag names, stable
+ * class names and positions. Text content is never used.
+ */
+export function getSelector(element: Element): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current !== document.documentElement && parts.length < MAX_SELECTOR_DEPTH) {
+    if (current.id && isStableToken(current.id)) {
+      parts.unshift(`#${CSS.escape(current.id)}`);
+      break;
+    }
+
+    const testAttribute = TEST_ATTRIBUTES.find(name => current?.hasAttribute(name));
+    if (testAttribute) {
+      const value = current.getAttribute(testAttribute) ?? '';
+      parts.unshift(`[${testAttribute}="${CSS.escape(value)}"]`);
+      break;
+    }
+
+    let part = current.tagName.toLowerCase();
+    const classes = [...current.classList].filter(isStableToken).slice(0, 2);
+    if (classes.length > 0) part += classes.map(name => `.${CSS.escape(name)}`).join('');
+
+    const parent: Element | null = current.parentElement;
+    if (parent) {
+      const tagName = current.tagName;
+      const siblings = [...parent.children].filter(child => child.tagName === tagName);
+      if (siblings.length > 1) part += `:nth-of-type(${siblings.indexOf(current) + 1})`;
+    }
+
+    parts.unshift(part);
+    current = parent;
+  }
+
+  return parts.join(' > ');
+}
+
+/**
+ * Detects rage clicks, several clicks in quick succession in one spot, and dead clicks,
+ * clicks on interactive elements followed by no DOM mutation, navigation or request.
+ */
+export function createFrustrationDetector(
+  options: FrustrationDetectorOptions,
+): FrustrationDetector {
+  const {
+    rageClickCount,
+    rageClickWindow,
+    rageClickRadius,
+    deadClickTimeout,
+    ignoreRequests,
+    onRageClick,
+    onDeadClick,
+  } = options;
+
+  let clicks: ClickRecord[] = [];
+  let lastActivity = 0;
+  const pending = new Set<ReturnType<typeof setTimeout>>();
+  let mutationObserver: MutationObserver | null = null;
+  let resourceObserver: PerformanceObserver | null = null;
+
+  const markActivity = () => {
+    lastActivity = performance.now();
+  };
+
+  const startObserving = () => {
+    if (mutationObserver) return;
+
+    mutationObserver = new MutationObserver(markActivity);
+    mutationObserver.observe(document.documentElement, {
+      subtree: true,
+      childList: true,
+      attributes: true,
+      characterData: true,
+    });
+
+    if (typeof PerformanceObserver !== 'undefined') {
+      // Entries arrive when a request completes, so date them by when it started
+      resourceObserver = new PerformanceObserver(list => {
+        for (const entry of list.getEntries()) {
+          if (ignoreRequests.some(prefix => entry.name.startsWith(prefix))) continue;
+          lastActivity = Math.max(lastActivity, entry.startTime);
+        }
+      });
+      try {
+        resourceObserver.observe({ type: 'resource' });
+      } catch {
+        resourceObserver = null;
+      }
+    }
+
+    window.addEventListener('pagehide', markActivity);
+    window.addEventListener('hashchange', markActivity);
+  };
+
+  const stopObserving = () => {
+    mutationObserver?.disconnect();
+    resourceObserver?.disconnect();
+    mutationObserver = null;
+    resourceObserver = null;
+    window.removeEventListener('pagehide', markActivity);
+    window.removeEventListener('hashchange', markActivity);
+  };
+
+  const detectRageClick = (event: MouseEvent, target: Element) => {
+    const now = performance.now();
+    clicks = clicks.filter(
+      click =>
+        now - click.time <= rageClickWindow &&
+        Math.hypot(click.x - event.clientX, click.y - event.clientY) <= rageClickRadius,
+    );
+    clicks.push({ x: event.clientX, y: event.clientY, time: now });
+
+    if (clicks.length >= rageClickCount) {
+      onRageClick(getSelector(target.closest(INTERACTIVE_SELECTOR) ?? target), clicks.length);
+      clicks = [];
+    }
+  };
+
+  const detectDeadClick = (target: Element) => {
+    const interactive = target.closest(INTERACTIVE_SELECTOR);
+    if (!interactive) return;
+
+    // Links that open elsewhere react outside this page
+    if (
+      interactive instanceof HTMLAnchorElement &&
+      interactive.target &&
+      interactive.target !== '_self'
+    ) {
+      return;
+    }
+
+    const clickedAt = performance.now();
+    startObserving();
+
+    const timer = setTimeout(() => {
+      pending.delete(timer);
+      if (pending.size === 0) stopObserving();
+      if (lastActivity < clickedAt) onDeadClick(getSelector(interactive));
+    }, deadClickTimeout);
+    pending.add(timer);
+  };
+
+  return {
+    handleClick(event) {
+      const target = event.target instanceof Element ? event.target : null;
+      if (!target) return;
+
+      if (rageClickCount > 0) detectRageClick(event, target);
+      if (deadClickTimeout > 0) detectDeadClick(target);
+    },
+    markActivity,
+    dispose() {
+      for (const timer of pending) clearTimeout(timer);
+      pending.clear();
+      stopObserving();
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { matchesConditions, matchesUrlPattern } from '../goals';
+import type { EventData, GoalDefinition } from '../types';
+import { createSessionDeduper } from './dedupe';
+
+const GOALS_KEY = '__entro_goals';
+
+export interface GoalTrackerOptions {
+  goals: GoalDefinition[];
+  /** Current session ID, goals sent once per session are reset when it changes */
+  getSessionId: () => string;
+  /** Keep goals sent this session across reloads in sessionStorage */
+  persist: boolean;
+  /** Called for each goal that matched and has not been sent yet */
+  onGoal: (goal: GoalDefinition) => void;
+}
+
+export interface GoalTracker {
+  /** Check page view goals against the path of a tracked page view */
+  pageView: (pathname: string) => void;
+  /** Check custom event goals */
+  event: (name: string, data?: EventData) => void;
+  /** Check click goals against the clicked element and its ancestors */
+  click: (target: Element) => void;
+  /** Check form submission goals */
+  submit: (form: Element) => void;
+  /** Allow goals sent once per page view again, on navigation */
+  reset: () => void;
+}
+
+// Selectors come from editable config, an invalid one must not break the listener
+function matchesSelector(element: Element, selector: string, ancestors: boolean): boolean {
+  try {
+    return ancestors ? element.closest(selector) !== null : element.matches(selector);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Matches page views, clicks, form submissions and events against goal
+ * definitions, sending each goal at most once per session or page view.
+ */
+export function createGoalTracker(options: GoalTrackerOptions): GoalTracker {
+  const { goals, getSessionId, persist, onGoal } = options;
+  const pageGoals = new Set<string>();
+  const isNewInSession = createSessionDeduper(GOALS_KEY, { persist: () => persist });
+
+  const complete = (goal: GoalDefinition) => {
+    if (goal.once === 'pageview') {
+      if (pageGoals.has(goal.id)) return;
+      pageGoals.add(goal.id);
+      onGoal(goal);
+      return;
+    }
+
+    if (!isNewInSession(getSessionId(), goal.id)) return;
+    onGoal(goal);
+  };
+
+  return {
+    pageView: pathname => {
+      for (const goal of goals) {
+        if (goal.url && matchesUrlPattern(goal.url, pathname)) complete(goal);
+      }
+    },
+    event: (name, data) => {
+      for (const goal of goals) {
+        if (goal.event === name && matchesConditions(goal.where, data)) complete(goal);
+      }
+    },
+    click: target => {
+      for (const goal of goals) {
+        if (goal.click && matchesSelector(target, goal.click, true)) complete(goal);
+      }
+    },
+    submit: form => {
+      for (const goal of goals) {
+        if (goal.submit && matchesSelector(form, goal.submit, false)) complete(goal);
+      }
+    },
+    reset: () => pageGoals.clear(),
+  };
+}
@@ -1,8 +1,13 @@
 export { useEntrolytics } from './useEntrolytics';
+export type { UseExperimentOptions } from './useExperiment';
+export { useExperiment } from './useExperiment';
+export type { EventTrackerReturn, UseEventTrackerOptions } from './useEventTracker';
 export { useEventTracker } from './useEventTracker';
 export type { FormEventData, FormEventType, UseFormTrackingOptions } from './useFormTracking';
 export { useFormTracking } from './useFormTracking';
 export { usePageView } from './usePageView';
+export type { UseScrollDepthOptions } from './useScrollDepth';
+export { useScrollDepth } from './useScrollDepth';
 // Phase 2: Web Vitals & Form Tracking
 export type {
   NavigationType,
@@ -1,11 +1,12 @@
 'use client';
 
-import { useContext } from 'react';
-import type { EntrolyticsContextValue } from '../../types';
+import { useContext, useMemo } from 'react';
+import type { DefaultEventMap, EntrolyticsContextValue, EventMap } from '../../types';
 import { EntrolyticsContext } from '../context';
 
 /**
- * Hook to access Entrolytics tracking functions.
+ * Hook to access Entrolytics tracking functions. Pass a destination name to send
+ * only to that destination, `default` being the provider's own `websiteId`.
  *
  * @example
  * ```tsx
@@ -25,14 +26,27 @@ import { EntrolyticsContext } from '../context';
  *
  * // Track revenue
  * trackRevenue('purchase', 99.99, 'USD');
+ *
+ * // Check event names and data against an event map
+ * const { track } = useEntrolytics<{ signup: { plan: string } }>();
+ *
+ * // Send to the roll-up destination only
+ * const rollup = useEntrolytics('rollup');
  * ```
  */
-export function useEntrolytics(): EntrolyticsContextValue {
+export function useEntrolytics<E extends EventMap = DefaultEventMap>(
+  destination?: string,
+): EntrolyticsContextValue<E> {
   const context = useContext(EntrolyticsContext);
+  const scoped = useMemo(
+    () =>
+      context && destination ? { ...context, ...context.forDestination(destination) } : context,
+    [context, destination],
+  );
 
-  if (!context) {
+  if (!scoped) {
     throw new Error('useEntrolytics must be used within an EntrolyticsProvider');
   }
 
-  return context;
+  return scoped as unknown as EntrolyticsContextValue<E>;
 }
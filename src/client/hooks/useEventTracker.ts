@@ -1,21 +1,27 @@
 'use client';
 
 import { useCallback } from 'react';
-import type { EventData } from '../../types';
+import type { DefaultEventMap, EventData, EventMap, EventName } from '../../types';
 import { useEntrolytics } from './useEntrolytics';
 
-interface UseEventTrackerOptions {
+/** Data merged over `defaultData`, so every property is optional */
+type EventDataOverride<E extends EventMap, K extends EventName<E>> = Partial<NonNullable<E[K]>>;
+
+export interface UseEventTrackerOptions<E extends EventMap = DefaultEventMap> {
   /** Default event name */
-  eventName?: string;
+  eventName?: EventName<E>;
   /** Default event data */
   defaultData?: EventData;
 }
 
-interface EventTrackerReturn {
+export interface EventTrackerReturn<E extends EventMap = DefaultEventMap> {
   /** Track an event with optional name and data overrides */
-  trackEvent: (name?: string, data?: EventData) => Promise<void>;
+  trackEvent: <K extends EventName<E>>(name?: K, data?: EventDataOverride<E, K>) => Promise<void>;
   /** Create a click handler that tracks an event */
-  createClickHandler: (name?: string, data?: EventData) => (e?: React.MouseEvent) => Promise<void>;
+  createClickHandler: <K extends EventName<E>>(
+    name?: K,
+    data?: EventDataOverride<E, K>,
+  ) => (e?: React.MouseEvent) => Promise<void>;
   /** Whether tracking is ready */
   isReady: boolean;
 }
@@ -46,7 +52,9 @@ interface EventTrackerReturn {
  * <button onClick={createClickHandler('signup', { plan: 'free' })}>Sign Up</button>
  * ```
  */
-export function useEventTracker(options: UseEventTrackerOptions = {}): EventTrackerReturn {
+export function useEventTracker<E extends EventMap = DefaultEventMap>(
+  options: UseEventTrackerOptions<E> = {},
+): EventTrackerReturn<E> {
   const { eventName, defaultData } = options;
   const { track, isReady } = useEntrolytics();
 
@@ -0,0 +1,103 @@
+'use client';
+
+import { useContext, useEffect, useRef, useSyncExternalStore } from 'react';
+import type { ExperimentConfig } from '../../types';
+import { BuiltInTrackContext } from '../context';
+import {
+  markExposure,
+  persistVariant,
+  readServerAssignments,
+  readVariantOverride,
+  resolveVariant,
+} from '../experiments';
+import { DEFAULT_SESSION_TIMEOUT, getCurrentSessionId, getOrCreateVisitorId } from '../identity';
+import { useEntrolytics } from './useEntrolytics';
+
+export interface UseExperimentOptions extends ExperimentConfig {
+  /** Send the exposure event once the variant renders, turn off to only read it (default: true) */
+  expose?: boolean;
+}
+
+// Assignments never change while the page is open, so there is nothing to subscribe to
+const subscribe = () => () => {};
+
+/**
+ * Hook that returns the visitor's variant of an experiment, or undefined until it is
+ * known on the client. Visitors are bucketed by hashing their visitor ID with the
+ * experiment key, and keep their first assignment once analytics consent is granted.
+ * Nothing is written to storage before then.
+ *
+ * The first time a variant renders in a session, an `$experiment_exposure` event is
+ * sent with the `experiment` and `variant`. Add `?entro_variant=key:variant` to the
+ * URL to force a variant while developing, forced variants send no exposure. Variants
+ * assigned by `withEntrolyticsExperiments` are returned as is, their exposure was
+ * already recorded by the middleware.
+ *
+ * @example
+ * ```tsx
+ * export function HeroSection() {
+ *   const variant = useExperiment('hero-cta', {
+ *     variants: ['control', 'short-copy'],
+ *     weights: [80, 20],
+ *   });
+ *
+ *   if (!variant) return <HeroSkeleton />;
+ *   return variant === 'short-copy' ? <ShortHero /> : <DefaultHero />;
+ * }
+ * ```
+ */
+export function useExperiment(key: string, options: UseExperimentOptions): string | undefined {
+  const { variants, weights, expose = true } = options;
+  const { config, consent } = useEntrolytics();
+  const track = useContext(BuiltInTrackContext);
+  const trackRef = useRef(track);
+  const storage = config.storage ?? 'local';
+  const sessionTimeout = config.sessionTimeout ?? DEFAULT_SESSION_TIMEOUT;
+  // String keys keep inline arrays from recomputing the variant every render
+  const variantKey = variants.join('\n');
+  const weightKey = weights?.join(',');
+
+  const variant = useSyncExternalStore(
+    subscribe,
+    () =>
+      resolveVariant(
+        key,
+        {
+          variants: variantKey ? variantKey.split('\n') : [],
+          weights: weightKey?.split(',').map(Number),
+        },
+        storage,
+      ),
+    () => undefined,
+  );
+
+  useEffect(() => {
+    trackRef.current = track;
+  }, [track]);
+
+  const canPersist = storage !== 'none' && consent.analytics === 'granted';
+  const cookieDomain = config.cookieDomain;
+
+  useEffect(() => {
+    if (!canPersist) return;
+    // Creates the visitor ID from the pending ID the variant was bucketed on
+    getOrCreateVisitorId(storage, cookieDomain);
+
+    if (!variant || readVariantOverride(key)) return;
+    if (readServerAssignments()[key] === variant) return;
+    persistVariant(key, variant, storage);
+  }, [canPersist, key, variant, storage, cookieDomain]);
+
+  // Effects run after commit, so the exposure only counts variants that actually rendered
+  useEffect(() => {
+    if (!expose || !variant || readVariantOverride(key)) return;
+    if (readServerAssignments()[key] === variant) return;
+
+    const sessionId = getCurrentSessionId(storage, sessionTimeout) ?? '';
+    if (!markExposure(sessionId, key, variant, canPersist)) return;
+
+    void trackRef.current?.('$experiment_exposure', { experiment: key, variant });
+  }, [expose, key, variant, storage, sessionTimeout, canPersist]);
+
+  return variant;
+}
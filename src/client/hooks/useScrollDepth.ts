@@ -0,0 +1,66 @@
+'use client';
+
+import { type RefObject, useContext, useEffect, useRef } from 'react';
+import { BuiltInTrackContext } from '../context';
+import { createScrollTracker, DEFAULT_SCROLL_THRESHOLDS } from '../scroll';
+import { useEntrolytics } from './useEntrolytics';
+
+export interface UseScrollDepthOptions {
+  /** Scroll percentages that send an event (default: [25, 50, 75, 100]) */
+  thresholds?: number[];
+  /** Scroll container to measure, the window when omitted */
+  target?: RefObject<Element | null>;
+  /** Enable tracking (default: true) */
+  enabled?: boolean;
+}
+
+/**
+ * Hook that sends a `scroll_depth` event with the reached `depth` the first time each
+ * threshold is passed. Thresholds are reset when the provider detects a navigation.
+ *
+ * @example
+ * ```tsx
+ * export function Article({ children }: { children: React.ReactNode }) {
+ *   const scrollRef = useRef<HTMLDivElement>(null);
+ *   useScrollDepth({ target: scrollRef, thresholds: [10, 50, 90] });
+ *
+ *   return (
+ *     <div ref={scrollRef} style={{ overflowY: 'auto', height: '100vh' }}>
+ *       {children}
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useScrollDepth(options: UseScrollDepthOptions = {}): void {
+  const { thresholds, target, enabled = true } = options;
+  const { onNavigate } = useEntrolytics();
+  const track = useContext(BuiltInTrackContext);
+  const trackRef = useRef(track);
+  const thresholdKey = thresholds?.join(',') ?? '';
+
+  useEffect(() => {
+    trackRef.current = track;
+  }, [track]);
+
+  useEffect(() => {
+    if (!enabled || typeof window === 'undefined') return;
+
+    const element = target ? target.current : undefined;
+    if (target && !element) return;
+
+    const scroller = createScrollTracker({
+      target: element,
+      thresholds: thresholdKey ? thresholdKey.split(',').map(Number) : DEFAULT_SCROLL_THRESHOLDS,
+      onMilestone: depth => {
+        void trackRef.current?.('scroll_depth', { depth });
+      },
+    });
+    const unsubscribe = onNavigate(() => scroller.reset());
+
+    return () => {
+      unsubscribe();
+      scroller.dispose();
+    };
+  }, [enabled, target, thresholdKey, onNavigate]);
+}
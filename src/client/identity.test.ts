@@ -0,0 +1,51 @@
+// @vitest-environment happy-dom
+// @vitest-environment-options { "url": "https://example.com/" }
+import { beforeEach, describe, expect, it } from 'vitest';
+import { getOrCreateVisitorId, getPendingVisitorId } from './identity';
+
+function clearCookies() {
+  for (const part of document.cookie.split('; ').filter(Boolean)) {
+    document.cookie = `${part.split('=')[0]}=; Max-Age=0; Path=/`;
+  }
+}
+
+describe('getOrCreateVisitorId', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    clearCookies();
+  });
+
+  it('keeps a stored visitor ID over a cookie the middleware just created', () => {
+    window.localStorage.setItem('__entro_vid', 'returning-visitor');
+    document.cookie = '__entro_vid=minted-visitor; Path=/';
+    document.cookie = '__entro_vid_new=minted-visitor; Path=/';
+
+    expect(getOrCreateVisitorId()).toBe('returning-visitor');
+    expect(window.localStorage.getItem('__entro_vid')).toBe('returning-visitor');
+    expect(document.cookie).toContain('__entro_vid=returning-visitor');
+    expect(document.cookie).not.toContain('__entro_vid_new');
+  });
+
+  it('adopts a cookie the middleware just created for a new visitor', () => {
+    document.cookie = '__entro_vid=minted-visitor; Path=/';
+    document.cookie = '__entro_vid_new=minted-visitor; Path=/';
+
+    expect(getOrCreateVisitorId()).toBe('minted-visitor');
+    expect(window.localStorage.getItem('__entro_vid')).toBe('minted-visitor');
+  });
+
+  it('prefers an established identity cookie over localStorage', () => {
+    window.localStorage.setItem('__entro_vid', 'stale-visitor');
+    document.cookie = '__entro_vid=shared-visitor; Path=/';
+
+    expect(getOrCreateVisitorId()).toBe('shared-visitor');
+    expect(window.localStorage.getItem('__entro_vid')).toBe('shared-visitor');
+  });
+
+  it('creates the visitor ID from the pending ID a new visitor was bucketed on', () => {
+    const pending = getPendingVisitorId();
+
+    expect(getPendingVisitorId()).toBe(pending);
+    expect(getOrCreateVisitorId()).toBe(pending);
+  });
+});
@@ -0,0 +1,329 @@
+import type { StorageMode } from '../types';
+
+const LEGACY_SESSION_KEY = '__entro_sid';
+const SESSION_KEY = '__entro_session';
+const VISITOR_KEY = '__entro_vid';
+
+// First-party cookies shared with withEntrolyticsMiddleware and the server helpers
+const VISITOR_COOKIE = '__entro_vid';
+const SESSION_COOKIE = '__entro_sid';
+// Set next to a visitor cookie the middleware created for a request without one
+const NEW_VISITOR_COOKIE = '__entro_vid_new';
+const VISITOR_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+export const DEFAULT_SESSION_TIMEOUT = 30 * 60 * 1000;
+
+export interface SessionRecord {
+  /** Session ID */
+  id: string;
+  /** When the session started (ms since epoch) */
+  startedAt: number;
+  /** Last tracked activity (ms since epoch) */
+  lastActivity: number;
+  /** Page views recorded in this session */
+  pageCount: number;
+  /** UTM campaign the session was attributed to */
+  campaign?: string;
+}
+
+export interface TouchSessionOptions {
+  storage: StorageMode;
+  /** Inactivity timeout in milliseconds */
+  timeout: number;
+  /** UTM campaign of the current URL */
+  campaign?: string;
+  /** Whether the activity is a page view */
+  isPageView: boolean;
+  /** Parent domain the session cookie is shared on, e.g. `.example.com` */
+  cookieDomain?: string;
+  now?: number;
+}
+
+export interface TouchSessionResult {
+  /** The active session after this activity */
+  session: SessionRecord;
+  /** Whether the activity started a new session */
+  isNew: boolean;
+  /** The session that was rotated out, if any */
+  ended?: SessionRecord;
+}
+
+// Storage-free mode keeps the session for the lifetime of the tab only
+let memorySession: SessionRecord | undefined;
+
+// Buckets a visitor who has no ID yet, and becomes their ID once it is created
+let pendingVisitorId: string | undefined;
+
+// Cookies already moved from this host to the parent domain during this page load
+const migratedCookies = new Set<string>();
+
+export function generateUuid(): string {
+  if (
+    typeof globalThis.crypto !== 'undefined' &&
+    typeof globalThis.crypto.randomUUID === 'function'
+  ) {
+    return globalThis.crypto.randomUUID();
+  }
+
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = Math.floor(Math.random() * 16);
+    const v = c === 'x' ? r : (r & 0x3) | 0x8;
+    return v.toString(16);
+  });
+}
+
+export function readCookie(name: string): string | undefined {
+  if (typeof document === 'undefined') return undefined;
+
+  const prefix = `${name}=`;
+  const match = document.cookie.split('; ').find(part => part.startsWith(prefix));
+  return match ? decodeURIComponent(match.slice(prefix.length)) : undefined;
+}
+
+function writeCookie(name: string, value: string, maxAgeSeconds: number, domain?: string): void {
+  if (typeof document === 'undefined') return;
+
+  const scope = domain ? `; Domain=${domain}` : '';
+  const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+  document.cookie = `${name}=${encodeURIComponent(value)}; Max-Age=${maxAgeSeconds}; Path=/${scope}; SameSite=Lax${secure}`;
+}
+
+/**
+ * Read a cookie that should live on the parent domain. The first read on a page
+ * expires any host-only copy so it cannot shadow the shared value, and returns the
+ * host-only value separately so it can be migrated when no shared value exists yet.
+ */
+function readDomainCookie(name: string): { shared?: string; local?: string } {
+  if (migratedCookies.has(name)) return { shared: readCookie(name) };
+  migratedCookies.add(name);
+
+  const local = readCookie(name);
+  writeCookie(name, '', 0);
+  const shared = readCookie(name);
+
+  return { shared, local: local === shared ? undefined : local };
+}
+
+function readSession(storage: StorageMode): SessionRecord | undefined {
+  if (storage === 'none') return memorySession;
+
+  try {
+    const raw = window.localStorage.getItem(SESSION_KEY);
+    return raw ? (JSON.parse(raw) as SessionRecord) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function writeSession(storage: StorageMode, session: SessionRecord): void {
+  if (storage === 'none') {
+    memorySession = session;
+    return;
+  }
+
+  try {
+    window.localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } catch {
+    memorySession = session;
+  }
+}
+
+function readSessionCookie(cookieDomain?: string): string | undefined {
+  if (!cookieDomain) return readCookie(SESSION_COOKIE);
+
+  const { shared, local } = readDomainCookie(SESSION_COOKIE);
+  return shared || local;
+}
+
+function isSameLocalDay(a: number, b: number): boolean {
+  return new Date(a).toDateString() === new Date(b).toDateString();
+}
+
+/**
+ * Record activity on the current session, rotating it after the inactivity timeout,
+ * on a new UTM campaign or when the visitor's local day changes.
+ *
+ * The session lives in localStorage so every tab on the origin shares it.
+ */
+export function touchSession(options: TouchSessionOptions): TouchSessionResult {
+  const { storage, timeout, campaign, isPageView, cookieDomain, now = Date.now() } = options;
+
+  if (typeof window === 'undefined') {
+    return {
+      session: { id: generateUuid(), startedAt: now, lastActivity: now, pageCount: 0 },
+      isNew: false,
+    };
+  }
+
+  const previous = readSession(storage);
+  const expired =
+    !previous ||
+    now - previous.lastActivity > timeout ||
+    !isSameLocalDay(previous.lastActivity, now) ||
+    (campaign !== undefined && campaign !== previous.campaign);
+
+  let session: SessionRecord;
+  if (expired) {
+    // Join a session the middleware already started for this visit, or keep the ID
+    // of a session created before sessions moved to localStorage
+    const cookieId = storage !== 'none' ? readSessionCookie(cookieDomain) : undefined;
+    const inheritedId =
+      cookieId && cookieId !== previous?.id
+        ? cookieId
+        : !previous && storage !== 'none'
+          ? window.sessionStorage.getItem(LEGACY_SESSION_KEY)
+          : undefined;
+    session = {
+      id: inheritedId || generateUuid(),
+      startedAt: now,
+      lastActivity: now,
+      pageCount: 0,
+      campaign,
+    };
+  } else {
+    session = { ...previous, lastActivity: now };
+
+    // Another subdomain started a session since this one was last active, join it
+    const sharedId =
+      cookieDomain && storage !== 'none' ? readSessionCookie(cookieDomain) : undefined;
+    if (sharedId && sharedId !== previous.id) session.id = sharedId;
+  }
+
+  if (isPageView) session.pageCount += 1;
+  writeSession(storage, session);
+
+  if (storage !== 'none') {
+    writeCookie(SESSION_COOKIE, session.id, Math.round(timeout / 1000), cookieDomain);
+  }
+
+  return { session, isNew: expired, ended: expired ? previous : undefined };
+}
+
+/**
+ * Returns the persistent visitor ID, or undefined in storage-free mode where the
+ * server derives a daily rotating visitor hash instead.
+ *
+ * The identity cookie wins over localStorage so browser and server events share
+ * the visitor the middleware assigned, unless the middleware only just created it
+ * and the browser already has a visitor ID of its own. With a `cookieDomain` the
+ * cookie is kept on the parent domain so all subdomains share one visitor,
+ * migrating the existing host-only cookie or localStorage value on first use.
+ */
+export function getOrCreateVisitorId(
+  storage: StorageMode = 'local',
+  cookieDomain?: string,
+): string | undefined {
+  if (storage === 'none') return undefined;
+  if (typeof window === 'undefined') return generateUuid();
+
+  let fromCookie: string | undefined;
+  let migrated: string | undefined;
+  if (cookieDomain) {
+    const { shared, local } = readDomainCookie(VISITOR_COOKIE);
+    fromCookie = shared;
+    migrated = local;
+  } else {
+    fromCookie = readCookie(VISITOR_COOKIE);
+  }
+
+  const stored = window.localStorage.getItem(VISITOR_KEY);
+
+  // A visitor ID this browser already had wins over one the middleware just created
+  const minted = readCookie(NEW_VISITOR_COOKIE);
+  if (minted) {
+    if (fromCookie === minted && (migrated || stored)) fromCookie = undefined;
+    writeCookie(NEW_VISITOR_COOKIE, '', 0, cookieDomain);
+  }
+
+  const visitorId = fromCookie || migrated || stored || pendingVisitorId || generateUuid();
+
+  if (stored !== visitorId) {
+    window.localStorage.setItem(VISITOR_KEY, visitorId);
+  }
+  if (fromCookie !== visitorId) {
+    writeCookie(VISITOR_COOKIE, visitorId, VISITOR_COOKIE_MAX_AGE, cookieDomain);
+  }
+
+  return visitorId;
+}
+
+/**
+ * The stored visitor ID without creating or migrating one, safe to call before consent.
+ */
+export function readVisitorId(storage: StorageMode): string | undefined {
+  if (storage === 'none' || typeof window === 'undefined') return undefined;
+
+  try {
+    const fromCookie = readCookie(VISITOR_COOKIE);
+    const stored = window.localStorage.getItem(VISITOR_KEY);
+    if (fromCookie && fromCookie === readCookie(NEW_VISITOR_COOKIE) && stored) return stored;
+    return fromCookie || stored || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * An ID for a visitor who has none yet, kept in memory only so it is safe before
+ * consent. It lasts across client-side navigations and becomes the visitor ID when
+ * `getOrCreateVisitorId` creates one, so anything keyed on it stays consistent.
+ */
+export function getPendingVisitorId(): string {
+  pendingVisitorId ??= generateUuid();
+  return pendingVisitorId;
+}
+
+/**
+ * The ID of the current session without recording activity, if one is active.
+ */
+export function getCurrentSessionId(storage: StorageMode, timeout: number): string | undefined {
+  if (typeof window === 'undefined') return undefined;
+
+  const session = readSession(storage);
+  if (!session || Date.now() - session.lastActivity > timeout) return undefined;
+  return session.id;
+}
+
+export interface AdoptIdsOptions {
+  storage: StorageMode;
+  /** Inactivity timeout in milliseconds */
+  timeout: number;
+  /** UTM campaign of the current URL */
+  campaign?: string;
+  /** Parent domain for the visitor cookie */
+  cookieDomain?: string;
+  /** Also keep the session cookie on `cookieDomain` */
+  shareSession?: boolean;
+}
+
+/**
+ * Continue a visitor journey started on another domain by persisting its visitor
+ * and session IDs as the current ones.
+ */
+export function adoptIds(
+  ids: { visitorId: string; sessionId?: string },
+  options: AdoptIdsOptions,
+): void {
+  const { storage, timeout, campaign, cookieDomain, shareSession } = options;
+  if (storage === 'none' || typeof window === 'undefined') return;
+
+  // Resolve any host-only copy first so it cannot shadow the adopted value
+  if (cookieDomain) readDomainCookie(VISITOR_COOKIE);
+  window.localStorage.setItem(VISITOR_KEY, ids.visitorId);
+  writeCookie(VISITOR_COOKIE, ids.visitorId, VISITOR_COOKIE_MAX_AGE, cookieDomain);
+
+  if (!ids.sessionId) return;
+
+  const sessionDomain = shareSession ? cookieDomain : undefined;
+  if (sessionDomain) readDomainCookie(SESSION_COOKIE);
+
+  const now = Date.now();
+  writeSession(storage, {
+    id: ids.sessionId,
+    startedAt: now,
+    lastActivity: now,
+    pageCount: 0,
+    campaign,
+  });
+  writeCookie(SESSION_COOKIE, ids.sessionId, Math.round(timeout / 1000), sessionDomain);
+}
@@ -1,11 +1,25 @@
-export { Analytics, OutboundLink, Script, TrackEvent } from './components';
+export {
+  Analytics,
+  EntrolyticsErrorBoundary,
+  Experiment,
+  OutboundLink,
+  Script,
+  TrackEvent,
+  Variant,
+} from './components';
 export { EntrolyticsContext } from './context';
+export type { TypedEntrolytics } from './createEntrolytics';
+export { createEntrolytics } from './createEntrolytics';
 // Re-export Phase 2 types
 export type {
+  EventTrackerReturn,
   FormEventData,
   FormEventType,
   NavigationType,
+  UseEventTrackerOptions,
+  UseExperimentOptions,
   UseFormTrackingOptions,
+  UseScrollDepthOptions,
   UseWebVitalsOptions,
   WebVitalData,
   WebVitalMetric,
@@ -14,9 +28,12 @@ export type {
 export {
   useEntrolytics,
   useEventTracker,
+  useExperiment,
   useFormTracking,
   usePageView,
+  useScrollDepth,
   // Phase 2
   useWebVitals,
 } from './hooks';
+export { EntrolyticsPagesProvider, reportWebVitals } from './pages';
 export { EntrolyticsProvider } from './provider';
@@ -0,0 +1,147 @@
+import { fnv1a } from '../hash';
+
+export const LINKER_PARAM = '_entro';
+const LINKER_VERSION = '1';
+const LINKER_TTL = 2 * 60 * 1000;
+// Signed tokens older than this are refreshed, so a cached one outlives the navigation
+const SIGNED_REFRESH_AGE = LINKER_TTL / 2;
+// Wait this long for the proxy to verify a signed token before tracking without it
+const VERIFY_TIMEOUT = 3000;
+
+export interface LinkedIds {
+  visitorId: string;
+  sessionId?: string;
+}
+
+// Binds a token to the browser that created it, so a copied or shared link does
+// not hand the original visitor's identity to someone else
+function fingerprint(): string {
+  if (typeof navigator === 'undefined') return '';
+  return `${navigator.userAgent}|${navigator.language}`;
+}
+
+// A checksum, not a signature: the browser holds no secret, so it only catches
+// truncated or mangled links and tokens moved to another browser. Signed tokens
+// come from the proxy, see `createSignedLinker`
+function checksum(parts: string[]): string {
+  return fnv1a([...parts, fingerprint()].join('|')).toString(36);
+}
+
+/**
+ * Whether a hostname is one of `linkDomains` or a subdomain of one.
+ */
+export function matchesLinkDomain(hostname: string, linkDomains: string[]): boolean {
+  return linkDomains.some(domain => {
+    const bare = domain.replace(/^\./, '').toLowerCase();
+    const host = hostname.toLowerCase();
+    return host === bare || host.endsWith(`.${bare}`);
+  });
+}
+
+/**
+ * Add a short-lived linker token carrying the visitor and session IDs to a URL.
+ */
+export function decorateUrl(href: string, ids: LinkedIds, now: number = Date.now()): string {
+  const parts = [LINKER_VERSION, ids.visitorId, ids.sessionId ?? '', now.toString(36)];
+  return setLinkerToken(href, [...parts, checksum(parts)].join('.'));
+}
+
+/**
+ * Add a linker token, e.g. one signed by the proxy, to a URL.
+ */
+export function setLinkerToken(href: string, token: string): string {
+  const url = new URL(href, window.location.href);
+  url.searchParams.set(LINKER_PARAM, token);
+  return url.toString();
+}
+
+/**
+ * Read the linker token from a URL. Expired or malformed tokens, and tokens
+ * created in a different browser, are ignored.
+ */
+export function readLinkerToken(href: string, now: number = Date.now()): LinkedIds | undefined {
+  const token = new URL(href).searchParams.get(LINKER_PARAM);
+  if (!token) return undefined;
+
+  const parts = token.split('.');
+  if (parts.length !== 5) return undefined;
+
+  const [version, visitorId, sessionId, issuedAt, sum] = parts;
+  if (version !== LINKER_VERSION || !visitorId) return undefined;
+  if (checksum(parts.slice(0, 4)) !== sum) return undefined;
+
+  const age = now - Number.parseInt(issuedAt, 36);
+  if (!(age >= 0 && age <= LINKER_TTL)) return undefined;
+
+  return { visitorId, ...(sessionId && { sessionId }) };
+}
+
+/**
+ * Remove the linker token from a URL.
+ */
+export function stripLinkerParam(href: string): string {
+  const url = new URL(href);
+  url.searchParams.delete(LINKER_PARAM);
+  return url.toString();
+}
+
+export interface SignedLinker {
+  /** Fetch a token for the visitor in the background unless a recent one is cached */
+  prefetch: (visitorId: string) => void;
+  /** The cached token for the visitor, while it is fresh enough to outlive a navigation */
+  current: (visitorId: string) => string | undefined;
+}
+
+/**
+ * Caches linker tokens signed by the proxy at `endpoint`. The proxy signs the IDs in
+ * the identity cookies, so tokens are fetched ahead of a click, e.g. on hover.
+ */
+export function createSignedLinker(endpoint: string): SignedLinker {
+  let cached: { visitorId: string; token: string; fetchedAt: number } | undefined;
+  let pending = false;
+
+  const isFresh = (visitorId: string, maxAge: number) =>
+    cached?.visitorId === visitorId && Date.now() - cached.fetchedAt < maxAge;
+
+  return {
+    prefetch: visitorId => {
+      if (pending || isFresh(visitorId, SIGNED_REFRESH_AGE)) return;
+      pending = true;
+
+      fetch(endpoint, { credentials: 'same-origin', cache: 'no-store' })
+        .then(res => (res.ok ? (res.json() as Promise<{ token?: string }>) : undefined))
+        .then(data => {
+          if (data?.token) cached = { visitorId, token: data.token, fetchedAt: Date.now() };
+        })
+        .catch(() => {
+          // Proxy unreachable, links stay undecorated
+        })
+        .finally(() => {
+          pending = false;
+        });
+    },
+    // Leaves the destination time to verify the token before it expires
+    current: visitorId =>
+      isFresh(visitorId, LINKER_TTL - VERIFY_TIMEOUT) ? cached?.token : undefined,
+  };
+}
+
+/**
+ * Verify a signed linker token through the proxy at `endpoint`. Invalid tokens, and
+ * tokens the proxy does not answer for in time, resolve to `undefined`.
+ */
+export function verifySignedToken(endpoint: string, token: string): Promise<LinkedIds | undefined> {
+  return fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ token }),
+    signal: AbortSignal.timeout(VERIFY_TIMEOUT),
+  })
+    .then(res => (res.ok ? (res.json() as Promise<Partial<LinkedIds>>) : undefined))
+    .then(ids =>
+      ids?.visitorId
+        ? { visitorId: ids.visitorId, ...(ids.sessionId && { sessionId: ids.sessionId }) }
+        : undefined,
+    )
+    .catch(() => undefined);
+}
@@ -0,0 +1,48 @@
+const TITLE_TIMEOUT = 1000;
+
+/**
+ * The current location as a tracked URL, without the query string or fragment when
+ * they are excluded.
+ */
+export function getLocationUrl(excludeSearch: boolean, excludeHash: boolean): string {
+  const { pathname, search, hash } = window.location;
+  return pathname + (excludeSearch ? '' : search) + (excludeHash ? '' : hash);
+}
+
+/**
+ * Call `callback` once the document title differs from `previousTitle`, or after a
+ * timeout for pages that keep the same title. Metadata can commit after the route
+ * itself, so the title is watched rather than read after a fixed delay.
+ *
+ * Returns a function that runs the callback right away if it is still waiting.
+ */
+export function whenTitleSettles(
+  previousTitle: string,
+  callback: () => void,
+  timeout: number = TITLE_TIMEOUT,
+): () => void {
+  let done = false;
+  let observer: MutationObserver | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const settle = () => {
+    if (done) return;
+    done = true;
+    observer?.disconnect();
+    clearTimeout(timer);
+    callback();
+  };
+
+  if (document.title !== previousTitle) {
+    settle();
+    return settle;
+  }
+
+  observer = new MutationObserver(() => {
+    if (document.title !== previousTitle) settle();
+  });
+  observer.observe(document.head, { subtree: true, childList: true, characterData: true });
+  timer = setTimeout(settle, timeout);
+
+  return settle;
+}
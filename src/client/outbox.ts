@@ -0,0 +1,299 @@
+import type { CollectPayload } from './queue';
+
+const DB_NAME = 'entrolytics';
+const STORE_NAME = 'outbox';
+const FALLBACK_KEY = '__entro_outbox';
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+const LOCK_NAME = 'entrolytics-outbox';
+const LOCK_KEY = '__entro_outbox_lock';
+// A tab that closes mid-replay cannot release a localStorage lease, so it expires
+const LOCK_LEASE = 60 * 1000;
+
+export interface OutboxOptions {
+  /** Deliver events, resolving to the events that could not be delivered */
+  deliver: (events: CollectPayload[]) => Promise<CollectPayload[]>;
+  /** Drop stored events older than this many milliseconds */
+  maxAge: number;
+  /** Maximum number of stored events, the oldest are dropped first */
+  maxEvents: number;
+  /** Debug logger */
+  log?: (...args: unknown[]) => void;
+}
+
+export interface Outbox {
+  /** Persist events that could not be delivered and schedule a retry */
+  store: (events: CollectPayload[]) => Promise<void>;
+  /** Try to deliver all stored events, retrying with exponential backoff on failure */
+  replay: () => Promise<void>;
+  /** Cancel any scheduled retry */
+  dispose: () => void;
+}
+
+interface OutboxStorage {
+  read: () => Promise<CollectPayload[]>;
+  write: (events: CollectPayload[]) => Promise<void>;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.addEventListener('success', () => resolve(request.result));
+    request.addEventListener('error', () => reject(request.error));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.addEventListener('upgradeneeded', () => {
+    request.result.createObjectStore(STORE_NAME, { autoIncrement: true });
+  });
+  return requestToPromise(request);
+}
+
+function createIndexedDbStorage(): OutboxStorage {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    dbPromise ??= openDatabase();
+    return dbPromise;
+  };
+
+  return {
+    read: async () => {
+      const db = await getDb();
+      const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      return requestToPromise(store.getAll() as IDBRequest<CollectPayload[]>);
+    },
+    write: async events => {
+      const db = await getDb();
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      store.clear();
+      for (const event of events) store.add(event);
+
+      await new Promise<void>((resolve, reject) => {
+        transaction.addEventListener('complete', () => resolve());
+        transaction.addEventListener('error', () => reject(transaction.error));
+        transaction.addEventListener('abort', () => reject(transaction.error));
+      });
+    },
+  };
+}
+
+function createLocalStorage(): OutboxStorage {
+  return {
+    read: async () => {
+      try {
+        const raw = window.localStorage.getItem(FALLBACK_KEY);
+        return raw ? (JSON.parse(raw) as CollectPayload[]) : [];
+      } catch {
+        return [];
+      }
+    },
+    write: async events => {
+      if (events.length === 0) {
+        window.localStorage.removeItem(FALLBACK_KEY);
+        return;
+      }
+      window.localStorage.setItem(FALLBACK_KEY, JSON.stringify(events));
+    },
+  };
+}
+
+/**
+ * Run a task unless another tab is already running it. Uses the Web Locks API,
+ * falling back to an expiring lease in localStorage.
+ */
+async function withTabLock(task: () => Promise<void>): Promise<void> {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    await navigator.locks.request(LOCK_NAME, { ifAvailable: true }, async lock => {
+      if (lock) await task();
+    });
+    return;
+  }
+
+  const owner = Math.random().toString(36).slice(2);
+  try {
+    const raw = window.localStorage.getItem(LOCK_KEY);
+    const lease = raw ? (JSON.parse(raw) as { owner: string; expires: number }) : undefined;
+    if (lease && lease.expires > Date.now()) return;
+    window.localStorage.setItem(
+      LOCK_KEY,
+      JSON.stringify({ owner, expires: Date.now() + LOCK_LEASE }),
+    );
+  } catch {
+    // Storage unavailable, there is no shared outbox to guard either
+  }
+
+  try {
+    await task();
+  } finally {
+    try {
+      const raw = window.localStorage.getItem(LOCK_KEY);
+      if (raw && (JSON.parse(raw) as { owner: string }).owner === owner) {
+        window.localStorage.removeItem(LOCK_KEY);
+      }
+    } catch {
+      // Storage unavailable, the lease expires on its own
+    }
+  }
+}
+
+/**
+ * Stored events without the delivered ones. Events read back from storage are
+ * copies, so they are matched by content, once per delivered event.
+ */
+function withoutDelivered(stored: CollectPayload[], delivered: CollectPayload[]): CollectPayload[] {
+  const counts = new Map<string, number>();
+  for (const event of delivered) {
+    const key = JSON.stringify(event);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  return stored.filter(event => {
+    const key = JSON.stringify(event);
+    const count = counts.get(key);
+    if (!count) return true;
+    counts.set(key, count - 1);
+    return false;
+  });
+}
+
+/**
+ * Creates a durable outbox for events that failed to send or were tracked while offline.
+ *
+ * Events are kept in IndexedDB, falling back to localStorage when IndexedDB is
+ * unavailable. Stored events keep their original client `timestamp` and are
+ * dropped once they exceed `maxAge` or the `maxEvents` cap.
+ */
+export function createOutbox(options: OutboxOptions): Outbox {
+  const { deliver, maxAge, maxEvents, log = () => {} } = options;
+
+  const primary = typeof indexedDB !== 'undefined' ? createIndexedDbStorage() : null;
+  const fallback = createLocalStorage();
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let replaying = false;
+
+  // Serialize storage access so concurrent store/replay calls do not overwrite each other
+  let pending: Promise<unknown> = Promise.resolve();
+  const exclusive = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = pending.then(task, task);
+    pending = result.catch(() => undefined);
+    return result;
+  };
+
+  const read = async (): Promise<CollectPayload[]> => {
+    if (primary) {
+      try {
+        return [...(await primary.read()), ...(await fallback.read())];
+      } catch (error) {
+        log('IndexedDB outbox unavailable, using localStorage', error);
+      }
+    }
+    return fallback.read();
+  };
+
+  const write = async (events: CollectPayload[]): Promise<void> => {
+    if (primary) {
+      try {
+        await primary.write(events);
+        await fallback.write([]);
+        return;
+      } catch (error) {
+        log('IndexedDB outbox unavailable, using localStorage', error);
+      }
+    }
+
+    try {
+      await fallback.write(events);
+    } catch (error) {
+      log('Failed to persist outbox', error);
+    }
+  };
+
+  const prune = (events: CollectPayload[]): CollectPayload[] => {
+    const cutoff = Date.now() - maxAge;
+    const fresh = events.filter(event => (event.timestamp ?? 0) >= cutoff);
+    return fresh.slice(-maxEvents);
+  };
+
+  const scheduleRetry = () => {
+    if (retryTimer) return;
+
+    const delay = Math.min(BASE_RETRY_DELAY * 2 ** attempt, MAX_RETRY_DELAY);
+    attempt += 1;
+    log('Retrying outbox in', delay, 'ms');
+
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      void replay();
+    }, delay);
+  };
+
+  const store = (events: CollectPayload[]): Promise<void> =>
+    exclusive(async () => {
+      if (events.length === 0) return;
+
+      const stored = prune([...(await read()), ...events]);
+      await write(stored);
+      log('Stored events in outbox', events.length);
+
+      // While offline the `online` event triggers the next replay instead
+      if (typeof navigator === 'undefined' || navigator.onLine !== false) {
+        scheduleRetry();
+      }
+    });
+
+  // Events stay stored until they are delivered, so a closed tab or failed
+  // request loses nothing, and the tab lock keeps two tabs from sending them twice
+  const replay = async (): Promise<void> => {
+    if (replaying) return;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+
+    replaying = true;
+    try {
+      await withTabLock(async () => {
+        const events = await exclusive(async () => {
+          const stored = await read();
+          const fresh = prune(stored);
+
+          if (fresh.length < stored.length) {
+            await write(fresh);
+            log('Dropped stale outbox events', stored.length - fresh.length);
+          }
+          return fresh;
+        });
+
+        if (events.length === 0) return;
+
+        log('Replaying outbox', events.length);
+        const failed = new Set(await deliver(events));
+        const delivered = events.filter(event => !failed.has(event));
+
+        // Events stored while delivering are kept
+        await exclusive(async () => {
+          if (delivered.length > 0) await write(withoutDelivered(await read(), delivered));
+        });
+
+        if (failed.size === 0) {
+          attempt = 0;
+          return;
+        }
+        if (typeof navigator === 'undefined' || navigator.onLine !== false) {
+          scheduleRetry();
+        }
+      });
+    } finally {
+      replaying = false;
+    }
+  };
+
+  const dispose = () => {
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+
+  return { store, replay, dispose };
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { getVitalRating } from '@entrolytics/shared';
+import type { NextWebVitalsMetric } from 'next/app';
+import Router from 'next/router';
+import React, { type ComponentProps, useEffect } from 'react';
+import type { RouterAdapterProps } from './components/RouterTracker';
+import { useWebVitals, type WebVitalData } from './hooks/useWebVitals';
+import { EntrolyticsProvider } from './provider';
+
+type PagesProviderProps = Omit<ComponentProps<typeof EntrolyticsProvider>, 'routerAdapter'> & {
+  /** Track shallow route changes, which only update the query string (default: true) */
+  trackShallowRoutes?: boolean;
+};
+
+const MAX_BUFFERED_VITALS = 20;
+
+// reportWebVitals is a module export of _app, so it reaches the mounted provider through here
+let vitalsReporter: ((data: WebVitalData) => void) | null = null;
+const bufferedVitals: WebVitalData[] = [];
+
+// `pathname` is the page template and leaves out the basePath and the locale, add them back
+function getRouteTemplate(): string {
+  const { basePath, locale, defaultLocale, pathname } = Router;
+  const localePrefix = locale && locale !== defaultLocale ? `/${locale}` : '';
+  const path = pathname === '/' && (basePath || localePrefix) ? '' : pathname;
+  return `${basePath}${localePrefix}${path}`;
+}
+
+function createPagesRouterAdapter(trackShallowRoutes: boolean) {
+  return function PagesRouterAdapter({ onAttach, onNavigate }: RouterAdapterProps) {
+    useEffect(() => {
+      onAttach();
+      onNavigate(getRouteTemplate());
+
+      const handleRouteChange = (_url: string, { shallow }: { shallow: boolean }) => {
+        if (shallow && !trackShallowRoutes) return;
+        onNavigate(getRouteTemplate());
+      };
+
+      Router.events.on('routeChangeComplete', handleRouteChange);
+      Router.events.on('hashChangeComplete', handleRouteChange);
+      return () => {
+        Router.events.off('routeChangeComplete', handleRouteChange);
+        Router.events.off('hashChangeComplete', handleRouteChange);
+      };
+    }, [onAttach, onNavigate]);
+
+    return null;
+  };
+}
+
+const adapters = {
+  shallow: createPagesRouterAdapter(true),
+  deep: createPagesRouterAdapter(false),
+};
+
+function VitalsBridge() {
+  const { trackVital } = useWebVitals({ autoInit: false });
+
+  useEffect(() => {
+    vitalsReporter = data => void trackVital(data);
+    for (const data of bufferedVitals.splice(0)) vitalsReporter(data);
+
+    return () => {
+      vitalsReporter = null;
+    };
+  }, [trackVital]);
+
+  return null;
+}
+
+/**
+ * Provider for the Pages Router. Page views follow `next/router` events instead of
+ * the App Router hooks, and carry the page template as their `route`, with the
+ * basePath and locale prefix, so `/blog/[slug]` groups every post.
+ *
+ * @example
+ * ```tsx
+ * // pages/_app.tsx
+ * import type { AppProps } from 'next/app';
+ * import { EntrolyticsPagesProvider } from '@entrolytics/nextjs';
+ *
+ * export { reportWebVitals } from '@entrolytics/nextjs';
+ *
+ * export default function App({ Component, pageProps }: AppProps) {
+ *   return (
+ *     <EntrolyticsPagesProvider websiteId={process.env.NEXT_PUBLIC_ENTROLYTICS_WEBSITE_ID!}>
+ *       <Component {...pageProps} />
+ *     </EntrolyticsPagesProvider>
+ *   );
+ * }
+ * ```
+ */
+export function EntrolyticsPagesProvider({
+  trackShallowRoutes = true,
+  children,
+  ...props
+}: PagesProviderProps) {
+  return (
+    <EntrolyticsProvider
+      {...props}
+      routerAdapter={trackShallowRoutes ? adapters.shallow : adapters.deep}
+    >
+      <VitalsBridge />
+      {children}
+    </EntrolyticsProvider>
+  );
+}
+
+/**
+ * Forward Core Web Vitals measured by Next.js to Entrolytics. Re-export it from
+ * `pages/_app.tsx` inside an `EntrolyticsPagesProvider`; metrics reported before the
+ * provider mounts are held until it does.
+ */
+export function reportWebVitals(metric: NextWebVitalsMetric): void {
+  if (metric.label !== 'web-vital') return;
+
+  const data: WebVitalData = {
+    metric: metric.name,
+    value: metric.value,
+    rating: getVitalRating(metric.name, metric.value),
+    id: metric.id,
+    attribution: metric.attribution,
+  };
+
+  if (vitalsReporter) {
+    vitalsReporter(data);
+  } else if (bufferedVitals.length < MAX_BUFFERED_VITALS) {
+    bufferedVitals.push(data);
+  }
+}
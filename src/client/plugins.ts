@@ -0,0 +1,121 @@
+import type {
+  BeforeSendCallback,
+  EntrolyticsPlugin,
+  PayloadType,
+  PluginApi,
+  PluginPayload,
+} from '../types';
+
+type Log = (...args: unknown[]) => void;
+
+type PluginHook = 'onPageView' | 'onIdentify' | 'onFlush';
+
+/**
+ * Wraps the `beforeSend` option as the last plugin in the chain.
+ */
+export function beforeSendPlugin(beforeSend: BeforeSendCallback): EntrolyticsPlugin {
+  return {
+    name: 'beforeSend',
+    transform: (payload, type) => beforeSend(type, payload),
+  };
+}
+
+/**
+ * Run a payload through the enrich, filter and transform stages of every plugin, in
+ * plugin order. Resolves to null when a plugin drops the event. A plugin that throws
+ * is skipped for that stage so one faulty plugin cannot drop every event.
+ */
+export async function runPluginChain(
+  plugins: EntrolyticsPlugin[],
+  payload: PluginPayload,
+  type: PayloadType,
+  log: Log,
+): Promise<PluginPayload | null> {
+  let current = payload;
+
+  for (const plugin of plugins) {
+    if (!plugin.enrich) continue;
+    try {
+      current = (await plugin.enrich(current, type)) ?? current;
+    } catch (error) {
+      log(`Plugin "${plugin.name}" enrich failed`, error);
+    }
+  }
+
+  for (const plugin of plugins) {
+    if (!plugin.filter) continue;
+    try {
+      if ((await plugin.filter(current, type)) === false) {
+        log(`Plugin "${plugin.name}" filtered out`, type);
+        return null;
+      }
+    } catch (error) {
+      log(`Plugin "${plugin.name}" filter failed`, error);
+    }
+  }
+
+  for (const plugin of plugins) {
+    if (!plugin.transform) continue;
+    try {
+      const result = await plugin.transform(current, type);
+      if (!result) {
+        log(`Plugin "${plugin.name}" dropped`, type);
+        return null;
+      }
+      current = result;
+    } catch (error) {
+      log(`Plugin "${plugin.name}" transform failed`, error);
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Call a lifecycle hook on every plugin that implements it, isolating failures.
+ */
+export function callPluginHook<K extends PluginHook>(
+  plugins: EntrolyticsPlugin[],
+  log: Log,
+  hook: K,
+  ...args: Parameters<NonNullable<EntrolyticsPlugin[K]>>
+): void {
+  for (const plugin of plugins) {
+    const handler = plugin[hook] as ((...hookArgs: typeof args) => unknown) | undefined;
+    if (!handler) continue;
+
+    try {
+      Promise.resolve(handler(...args)).catch(error => {
+        log(`Plugin "${plugin.name}" ${hook} failed`, error);
+      });
+    } catch (error) {
+      log(`Plugin "${plugin.name}" ${hook} failed`, error);
+    }
+  }
+}
+
+/**
+ * Call `onInit` on every plugin and return a function that runs their cleanups.
+ */
+export function initPlugins(plugins: EntrolyticsPlugin[], api: PluginApi, log: Log): () => void {
+  const cleanups: (() => void)[] = [];
+
+  for (const plugin of plugins) {
+    try {
+      const cleanup = plugin.onInit?.(api);
+      if (typeof cleanup === 'function') cleanups.push(cleanup);
+    } catch (error) {
+      log(`Plugin "${plugin.name}" onInit failed`, error);
+    }
+  }
+
+  return () => {
+    for (const cleanup of cleanups) {
+      try {
+        cleanup();
+      } catch (error) {
+        log('Plugin cleanup failed', error);
+      }
+    }
+  };
+}
@@ -0,0 +1,28 @@
+import type { EventData } from '../types';
+
+const PROPERTIES_KEY = '__entro_props';
+
+export function loadSuperProperties(): EventData | undefined {
+  if (typeof window === 'undefined') return undefined;
+
+  try {
+    const raw = window.localStorage.getItem(PROPERTIES_KEY);
+    return raw ? (JSON.parse(raw) as EventData) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function storeSuperProperties(properties: EventData): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    if (Object.keys(properties).length === 0) {
+      window.localStorage.removeItem(PROPERTIES_KEY);
+      return;
+    }
+    window.localStorage.setItem(PROPERTIES_KEY, JSON.stringify(properties));
+  } catch {
+    // Storage unavailable, properties only last for this page
+  }
+}
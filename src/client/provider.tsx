@@ -1,17 +1,90 @@
 'use client';
 
-import React, { type ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { API_ROUTES } from '@entrolytics/shared';
+import React, {
+  type ComponentType,
+  type ReactNode,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 import type {
+  ConsentCategory,
+  ConsentState,
+  ConsentStatus,
+  DestinationMethods,
   EnhancedIdentityData,
   EntrolyticsConfig,
   EntrolyticsContextValue,
   EventData,
+  EntrolyticsPlugin,
   EventPayload,
+  GoalDefinition,
   IdentifyPayload,
   PayloadType,
+  PluginApi,
+  PluginMethod,
+  SamplingConfig,
   TrackedProperties,
 } from '../types';
-import { EntrolyticsContext } from './context';
+import { parseGoals } from '../goals';
+import { createRedactor } from '../redact';
+import { createRouteMatcher } from '../routes';
+import { validateEvent } from '../schema';
+import {
+  decidedConsent,
+  getConsentCategory,
+  loadStoredConsent,
+  resolveConsent,
+  storeConsent,
+} from './consent';
+import { type RouterAdapterProps, RouterTracker } from './components/RouterTracker';
+import { BuiltInTrackContext, EntrolyticsContext } from './context';
+import { createEngagementTimer, type EngagementTimer } from './engagement';
+import {
+  captureGlobalErrors,
+  createErrorDeduper,
+  type ErrorSource,
+  fingerprintError,
+  normalizeError,
+  normalizeStack,
+} from './errors';
+import { readServerAssignments } from './experiments';
+import { createFrustrationDetector } from './frustration';
+import { createGoalTracker, type GoalTracker } from './goals';
+import {
+  adoptIds,
+  DEFAULT_SESSION_TIMEOUT,
+  getCurrentSessionId,
+  getOrCreateVisitorId,
+  type SessionRecord,
+  touchSession,
+} from './identity';
+import {
+  createSignedLinker,
+  decorateUrl,
+  LINKER_PARAM,
+  type LinkedIds,
+  matchesLinkDomain,
+  readLinkerToken,
+  setLinkerToken,
+  stripLinkerParam,
+  verifySignedToken,
+} from './linker';
+import { getLocationUrl, whenTitleSettles } from './navigation';
+import { createOutbox, type Outbox } from './outbox';
+import { beforeSendPlugin, callPluginHook, initPlugins, runPluginChain } from './plugins';
+import { loadSuperProperties, storeSuperProperties } from './properties';
+import {
+  type CollectPayload,
+  createEventQueue,
+  type DeliveryTarget,
+  type EventQueue,
+} from './queue';
+import { createRateLimiter, isSampled, resolveSampleRate } from './sampling';
+import { createScrollTracker, DEFAULT_SCROLL_THRESHOLDS } from './scroll';
 
 declare global {
   interface Window {
@@ -24,46 +97,35 @@ declare global {
 
 interface EntrolyticsProviderProps extends EntrolyticsConfig {
   children: ReactNode;
+  /** Reports router navigations, the App Router tracker by default */
+  routerAdapter?: ComponentType<RouterAdapterProps>;
 }
 
-const SESSION_KEY = '__entro_sid';
-const VISITOR_KEY = '__entro_vid';
-
-function generateUuid(): string {
-  if (
-    typeof globalThis.crypto !== 'undefined' &&
-    typeof globalThis.crypto.randomUUID === 'function'
-  ) {
-    return globalThis.crypto.randomUUID();
-  }
-
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
-    const r = Math.floor(Math.random() * 16);
-    const v = c === 'x' ? r : (r & 0x3) | 0x8;
-    return v.toString(16);
-  });
-}
-
-function getOrCreateSessionId(): string {
-  if (typeof window === 'undefined') return generateUuid();
-
-  const existing = window.sessionStorage.getItem(SESSION_KEY);
-  if (existing) return existing;
-
-  const sessionId = generateUuid();
-  window.sessionStorage.setItem(SESSION_KEY, sessionId);
-  return sessionId;
+interface PendingEvent {
+  payload: EventPayload | IdentifyPayload;
+  type: PayloadType;
+  category: ConsentCategory;
+  timestamp: number;
+  destination?: string;
 }
 
-function getOrCreateVisitorId(): string {
-  if (typeof window === 'undefined') return generateUuid();
-
-  const existing = window.localStorage.getItem(VISITOR_KEY);
-  if (existing) return existing;
-
-  const visitorId = generateUuid();
-  window.localStorage.setItem(VISITOR_KEY, visitorId);
-  return visitorId;
+const DEFAULT_OUTBOX_MAX_AGE = 24 * 60 * 60 * 1000;
+const DEFAULT_OUTBOX_MAX_EVENTS = 500;
+const MAX_PENDING_EVENTS = 100;
+const DEFAULT_IDLE_TIMEOUT = 30 * 1000;
+const DEFAULT_ERRORS_PER_MINUTE = 10;
+const DEFAULT_CONSENT: ConsentState = { analytics: 'granted', marketing: 'granted' };
+const DEFAULT_DESTINATION = 'default';
+
+// Written by withEntrolytics at build time
+function readRouteManifest(): string[] {
+  try {
+    const raw =
+      typeof process !== 'undefined' ? process.env.NEXT_PUBLIC_ENTROLYTICS_ROUTES : undefined;
+    return raw ? (JSON.parse(raw) as string[]) : [];
+  } catch {
+    return [];
+  }
 }
 
 export function EntrolyticsProvider({
@@ -87,15 +149,116 @@ export function EntrolyticsProvider({
   scriptName = 'script.js',
   debug = false,
   useEdgeRuntime = true,
+  queueSize = 10,
+  flushInterval = 5000,
+  maxPayloadBytes = 60000,
+  outbox = true,
+  consent: initialConsent,
+  storage = 'local',
+  sessionTimeout = DEFAULT_SESSION_TIMEOUT,
+  cookieDomain,
+  shareSession = false,
+  linkDomains,
+  redact = false,
+  plugins,
+  persistSuperProperties = false,
+  eventSchema,
+  sampling,
+  rateLimit,
+  trackEngagement = false,
+  trackScrollDepth = false,
+  trackErrors = false,
+  trackFrustration = false,
+  routes,
+  maskDynamicSegments = false,
+  destinations,
+  goals,
+  routerAdapter: RouterAdapter = RouterTracker,
 }: EntrolyticsProviderProps) {
   const [isReady, setIsReady] = useState(false);
   const [isEnabled, setIsEnabled] = useState(true);
   const [currentTag, setCurrentTag] = useState(initialTag);
   const [identity, setIdentity] = useState<string | undefined>();
+  const [routerAttached, setRouterAttached] = useState(false);
+  const [remoteGoals, setRemoteGoals] = useState<GoalDefinition[]>([]);
+  const [consent, setConsentState] = useState<ConsentState>(() =>
+    resolveConsent(initialConsent, DEFAULT_CONSENT),
+  );
+  // Read by send and dispatch so a consent change does not give track a new identity
+  const consentRef = useRef(consent);
+  // A string key keeps an inline consent object from re-applying every render
+  const consentKey = JSON.stringify(initialConsent ?? null);
+  const appliedConsentKeyRef = useRef<string | undefined>(undefined);
+  const pendingEventsRef = useRef<PendingEvent[]>([]);
+  const initialViewSentRef = useRef(false);
   const cacheRef = useRef<string | undefined>(undefined);
   const currentUrlRef = useRef<string>('');
   const currentRefRef = useRef<string>('');
   const missingApiKeyWarned = useRef(false);
+  const queueRef = useRef<EventQueue | null>(null);
+  const outboxRef = useRef<Outbox | null>(null);
+  const linkedIdsRef = useRef<LinkedIds | null>(null);
+  const linkerCheckRef = useRef<Promise<void> | null>(null);
+  const pluginChainRef = useRef<EntrolyticsPlugin[]>([]);
+  const superPropertiesRef = useRef<EventData | null>(null);
+  const contextRef = useRef<EntrolyticsContextValue | null>(null);
+  const engagementRef = useRef<EngagementTimer | null>(null);
+  const currentRouteRef = useRef<string | undefined>(undefined);
+  const pageTitleRef = useRef('');
+  const pendingViewRef = useRef<(() => void) | null>(null);
+  const navigationListenersRef = useRef<Set<(url: string) => void>>(new Set());
+  const goalTrackerRef = useRef<GoalTracker | undefined>(undefined);
+  // Path of a page view tracked before goals loaded, checked once they arrive
+  const uncheckedGoalPathRef = useRef<string | undefined>(undefined);
+
+  // Storage-free mode must not persist events either
+  const outboxEnabled = outbox !== false && storage !== 'none';
+  const outboxMaxAge = (typeof outbox === 'object' && outbox.maxAge) || DEFAULT_OUTBOX_MAX_AGE;
+  const outboxMaxEvents =
+    (typeof outbox === 'object' && outbox.maxEvents) || DEFAULT_OUTBOX_MAX_EVENTS;
+
+  const redactor = useMemo(() => createRedactor(redact), [redact]);
+  const routeMatcher = useMemo(() => createRouteMatcher(routes ?? readRouteManifest()), [routes]);
+  // Keyed on the numbers so an inline config object does not reset the counters every render
+  const rateLimitEnabled = rateLimit !== false;
+  const rateLimitMax = rateLimit ? rateLimit.limit : undefined;
+  const rateLimitWindow = rateLimit ? rateLimit.window : undefined;
+  const engagementEnabled = trackEngagement !== false;
+  const idleTimeout =
+    (typeof trackEngagement === 'object' && trackEngagement.idleTimeout) || DEFAULT_IDLE_TIMEOUT;
+  const heartbeatInterval =
+    (typeof trackEngagement === 'object' && trackEngagement.heartbeatInterval) || 0;
+  // A string key keeps an inline thresholds array from restarting the tracker every render
+  const scrollDepthEnabled = trackScrollDepth !== false;
+  const scrollThresholdKey =
+    (typeof trackScrollDepth === 'object' && trackScrollDepth.thresholds?.join(',')) || '';
+  const errorsEnabled = trackErrors !== false;
+  const errorConfig = typeof trackErrors === 'object' ? trackErrors : undefined;
+  const errorsPerMinute = errorConfig?.maxPerMinute ?? DEFAULT_ERRORS_PER_MINUTE;
+  const errorLimiter = useMemo(
+    () => createRateLimiter({ limit: errorsPerMinute, window: 60 * 1000 }),
+    [errorsPerMinute],
+  );
+  const errorDeduper = useMemo(() => createErrorDeduper(storage !== 'none'), [storage]);
+  const frustrationEnabled = trackFrustration !== false;
+  const frustrationConfig = typeof trackFrustration === 'object' ? trackFrustration : undefined;
+  const rageClickCount = frustrationConfig?.rageClickCount ?? 3;
+  const rageClickWindow = frustrationConfig?.rageClickWindow ?? 1000;
+  const rageClickRadius = frustrationConfig?.rageClickRadius ?? 30;
+  const deadClickTimeout = frustrationConfig?.deadClickTimeout ?? 1000;
+  const rateLimiter = useMemo(
+    () =>
+      rateLimitEnabled
+        ? createRateLimiter({ limit: rateLimitMax, window: rateLimitWindow })
+        : undefined,
+    [rateLimitEnabled, rateLimitMax, rateLimitWindow],
+  );
+
+  // beforeSend keeps working as the last transform in the plugin chain
+  const pluginChain = useMemo(
+    () => [...(plugins ?? []), ...(beforeSend ? [beforeSendPlugin(beforeSend)] : [])],
+    [plugins, beforeSend],
+  );
 
   // Determine endpoint
   const endpoint = useMemo(() => {
@@ -111,6 +274,42 @@ export function EntrolyticsProvider({
     return endpointPath;
   }, [host, proxy]);
 
+  const batchEndpoint = useMemo(() => {
+    if (proxy && typeof proxy === 'object' && proxy.enabled) {
+      return `${proxy.collectPath || '/api/collect'}/batch`;
+    }
+
+    if (host) {
+      return `${host.replace(/\/$/, '')}${API_ROUTES.collectBatch}`;
+    }
+    return API_ROUTES.collectBatch;
+  }, [host, proxy]);
+
+  // Signed linker tokens are minted and verified by the proxy
+  const linkerEndpoint = useMemo(() => {
+    if (proxy && typeof proxy === 'object' && proxy.enabled && proxy.signLinks) {
+      return `${proxy.collectPath || '/api/collect'}/linker`;
+    }
+    return undefined;
+  }, [proxy]);
+
+  // Destinations on another host or with another API key are delivered separately
+  const destinationTargets = useMemo(() => {
+    const targets = new Map<string, DeliveryTarget>();
+    for (const destination of destinations ?? []) {
+      if (!destination.host && !destination.apiKey) continue;
+
+      const base = destination.host?.replace(/\/$/, '');
+      targets.set(destination.websiteId, {
+        endpoint: base ? `${base}/collect` : endpoint,
+        batchEndpoint: base ? `${base}${API_ROUTES.collectBatch}` : batchEndpoint,
+        apiKey: destination.apiKey ?? apiKey ?? '',
+      });
+    }
+    return targets;
+  }, [destinations, endpoint, batchEndpoint, apiKey]);
+  const destinationTargetsRef = useRef(destinationTargets);
+
   // Check if tracking should be disabled
   const checkTrackingDisabled = useCallback((): boolean => {
     if (typeof window === 'undefined') return true;
@@ -175,6 +374,94 @@ export function EntrolyticsProvider({
     [debug],
   );
 
+  // Lazily create the event queue so events tracked before mount effects run are kept
+  const getQueue = useCallback((): EventQueue => {
+    if (!queueRef.current) {
+      queueRef.current = createEventQueue({
+        endpoint,
+        batchEndpoint,
+        apiKey: apiKey ?? '',
+        maxSize: Math.max(1, queueSize),
+        flushInterval,
+        maxPayloadBytes,
+        getTarget: event => destinationTargetsRef.current.get(event.websiteId),
+        getCacheToken: () => cacheRef.current,
+        onResponse: data => {
+          if (data.disabled) setIsEnabled(false);
+          if (data.cache) cacheRef.current = data.cache;
+        },
+        onDeliveryFailure: events => {
+          void outboxRef.current?.store(events);
+        },
+        onFlush: delivered => {
+          callPluginHook(pluginChainRef.current, log, 'onFlush', delivered);
+        },
+        log,
+      });
+    }
+    return queueRef.current;
+  }, [endpoint, batchEndpoint, apiKey, queueSize, flushInterval, maxPayloadBytes, log]);
+
+  // Flush and drop the queue when its configuration changes or the provider unmounts
+  useEffect(() => {
+    const queue = getQueue();
+
+    return () => {
+      queue.dispose();
+      if (queueRef.current === queue) queueRef.current = null;
+    };
+  }, [getQueue]);
+
+  // Storage-free events carry no visitor ID, only the proxy derives one for them.
+  // The collector rejects them otherwise, so nothing is sent
+  const storageFreeWithoutProxy =
+    storage === 'none' && !(typeof proxy === 'object' && proxy.enabled);
+  useEffect(() => {
+    if (storageFreeWithoutProxy) {
+      console.warn(
+        '[Entrolytics] storage="none" requires proxy={{ enabled: true }}, tracking is disabled',
+      );
+    }
+  }, [storageFreeWithoutProxy]);
+
+  // Persist undeliverable events and replay them on load and when the browser comes back online
+  useEffect(() => {
+    if (typeof window === 'undefined' || !outboxEnabled) return;
+
+    const box = createOutbox({
+      deliver: events => getQueue().deliver(events),
+      maxAge: outboxMaxAge,
+      maxEvents: outboxMaxEvents,
+      log,
+    });
+    outboxRef.current = box;
+
+    const handleOnline = () => {
+      void box.replay();
+    };
+
+    if (!checkTrackingDisabled() && consent.analytics === 'granted') handleOnline();
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      box.dispose();
+      if (outboxRef.current === box) outboxRef.current = null;
+    };
+  }, [
+    outboxEnabled,
+    outboxMaxAge,
+    outboxMaxEvents,
+    getQueue,
+    checkTrackingDisabled,
+    consent.analytics,
+    log,
+  ]);
+
+  const flush = useCallback(async (): Promise<void> => {
+    await queueRef.current?.flush();
+  }, []);
+
   const toAbsoluteUrl = useCallback((rawUrl: string): string => {
     if (/^https?:\/\//i.test(rawUrl)) {
       return rawUrl;
@@ -200,63 +487,55 @@ export function EntrolyticsProvider({
     return undefined;
   }, []);
 
-  // Send data to endpoint
-  const send = useCallback(
-    async (payload: EventPayload | IdentifyPayload, type: PayloadType = 'event'): Promise<void> => {
-      if (checkTrackingDisabled()) {
-        log('Tracking disabled, skipping', type);
-        return;
-      }
-
-      if (!websiteId) {
-        log('websiteId is required for collect tracking, skipping');
-        return;
-      }
-
-      if (!apiKey) {
-        if (!missingApiKeyWarned.current) {
-          log('apiKey is required for collect tracking, skipping until configured');
-          missingApiKeyWarned.current = true;
-        }
-        return;
-      }
-
-      let finalPayload = payload;
-
-      // Apply beforeSend callback
-      if (beforeSend) {
-        const result = beforeSend(type, payload);
-        if (!result) {
-          log('beforeSend returned falsy, skipping', type);
-          return;
-        }
-        finalPayload = result;
-      }
+  // Build the collect payload and hand it to the queue
+  const dispatch = useCallback(
+    (
+      payload: EventPayload | IdentifyPayload,
+      type: PayloadType,
+      timestamp: number = Date.now(),
+      destination?: string,
+    ): void => {
+      if (!websiteId) return;
 
-      log('Sending', type, finalPayload);
+      log('Sending', type, payload);
 
       try {
-        const eventPayload = finalPayload as Partial<EventPayload> & Partial<TrackedProperties>;
+        const eventPayload = payload as Partial<EventPayload> & Partial<TrackedProperties>;
         const rawUrl =
           typeof eventPayload.url === 'string' && eventPayload.url.length > 0
             ? eventPayload.url
             : currentUrlRef.current || window.location.pathname + window.location.search;
 
-        const url = toAbsoluteUrl(rawUrl);
-        const sessionId = getOrCreateSessionId();
-        const visitorId = getOrCreateVisitorId();
+        const absoluteUrl = toAbsoluteUrl(rawUrl);
+        const route =
+          rawUrl === currentUrlRef.current && currentRouteRef.current
+            ? currentRouteRef.current
+            : routeMatcher(new URL(absoluteUrl).pathname);
+        let sentUrl = absoluteUrl;
+        if (maskDynamicSegments) {
+          const maskedUrl = new URL(absoluteUrl);
+          maskedUrl.pathname = route;
+          sentUrl = maskedUrl.toString();
+        }
+        const url = redactor ? redactor.url(sentUrl) : sentUrl;
 
-        const properties: Record<string, unknown> = {
+        let properties: Record<string, unknown> = {
           ...(eventPayload.data && typeof eventPayload.data === 'object' ? eventPayload.data : {}),
         };
 
         if (eventPayload.tag) properties.tag = eventPayload.tag;
         if (eventPayload.id) properties.distinctId = eventPayload.id;
 
+        // Variants assigned at the edge tag every event, matching the server's exposure
+        const experiments = readServerAssignments();
+        if (Object.keys(experiments).length > 0) properties.experiments = experiments;
+
         if (type === 'identify') {
           properties.identify = true;
         }
 
+        if (redactor) properties = redactor.data(properties);
+
         const eventName =
           typeof eventPayload.name === 'string' && eventPayload.name.length > 0
             ? eventPayload.name
@@ -265,177 +544,533 @@ export function EntrolyticsProvider({
               : undefined;
 
         const eventType = eventName ? 'custom_event' : 'pageview';
-        const parsedUrl = new URL(url);
-        const normalizedReferrer = toValidReferrer(eventPayload.referrer);
+        if (eventType === 'pageview') properties.route = route;
+        // Attribution is read before URL redaction so allowlists need not list UTM
+        // parameters, their values are still checked for personal data
+        const parsedUrl = new URL(absoluteUrl);
+        const readUtm = (param: string) => {
+          const value = parsedUrl.searchParams.get(param);
+          return value && redactor ? redactor.text(value) : value;
+        };
+        const validReferrer = toValidReferrer(eventPayload.referrer);
+        const normalizedReferrer =
+          validReferrer && redactor ? redactor.url(validReferrer) : validReferrer;
+        const allowAttribution = consentRef.current.marketing === 'granted';
+        const utmSource = readUtm('utm_source');
+        const utmMedium = readUtm('utm_medium');
+        const utmCampaign = readUtm('utm_campaign');
+        const utmTerm = readUtm('utm_term');
+        const utmContent = readUtm('utm_content');
+
+        // IDs handed over by a decorated link are only persisted once tracking is allowed
+        if (linkedIdsRef.current) {
+          adoptIds(linkedIdsRef.current, {
+            storage,
+            timeout: sessionTimeout,
+            campaign: utmCampaign ?? undefined,
+            cookieDomain,
+            shareSession,
+          });
+          linkedIdsRef.current = null;
+        }
+
+        const visitorId = getOrCreateVisitorId(storage, cookieDomain);
+        const { session, isNew, ended } = touchSession({
+          storage,
+          timeout: sessionTimeout,
+          cookieDomain: shareSession ? cookieDomain : undefined,
+          campaign: utmCampaign ?? undefined,
+          isPageView: eventType === 'pageview',
+          now: timestamp,
+        });
+        const sessionId = session.id;
+
+        // Untargeted events go to the provider's website and every extra destination they pass
+        const recipients: { websiteId: string; sampling?: SamplingConfig }[] = [];
+        if (!destination || destination === DEFAULT_DESTINATION) {
+          recipients.push({ websiteId, sampling });
+        }
+        for (const extra of destinations ?? []) {
+          if (destination ? extra.name !== destination : extra.filter?.(payload, type) === false) {
+            continue;
+          }
+          recipients.push({ websiteId: extra.websiteId, sampling: extra.sampling });
+        }
+        if (recipients.length === 0) log('Unknown destination, skipping', destination);
+
+        const sessionEvent = (
+          name: 'session_start' | 'session_end',
+          record: SessionRecord,
+          data: Record<string, unknown>,
+          eventTimestamp: number,
+        ): Omit<CollectPayload, 'websiteId'> => ({
+          timestamp: eventTimestamp,
+          sessionId: record.id,
+          ...(visitorId && { visitorId }),
+          url,
+          eventType: 'custom_event',
+          eventName: name,
+          screenWidth: window.screen.width,
+          screenHeight: window.screen.height,
+          properties: data,
+        });
+
+        const sessionEvents: Omit<CollectPayload, 'websiteId'>[] = [];
+        if (ended) {
+          sessionEvents.push(
+            sessionEvent(
+              'session_end',
+              ended,
+              { duration: ended.lastActivity - ended.startedAt, pageCount: ended.pageCount },
+              ended.lastActivity,
+            ),
+          );
+        }
+        if (isNew) sessionEvents.push(sessionEvent('session_start', session, {}, timestamp));
 
-        const collectPayload = {
-          websiteId,
+        const collectPayload: Omit<CollectPayload, 'websiteId'> = {
+          timestamp,
           sessionId,
-          visitorId,
+          ...(visitorId && { visitorId }),
           url,
           eventType,
           ...(eventName && { eventName }),
           ...(normalizedReferrer && { referrer: normalizedReferrer }),
           screenWidth: window.screen.width,
           screenHeight: window.screen.height,
-          ...(parsedUrl.searchParams.get('utm_source') && {
-            utmSource: parsedUrl.searchParams.get('utm_source'),
-          }),
-          ...(parsedUrl.searchParams.get('utm_medium') && {
-            utmMedium: parsedUrl.searchParams.get('utm_medium'),
-          }),
-          ...(parsedUrl.searchParams.get('utm_campaign') && {
-            utmCampaign: parsedUrl.searchParams.get('utm_campaign'),
+          // Campaign attribution requires marketing consent
+          ...(allowAttribution && {
+            ...(utmSource && { utmSource }),
+            ...(utmMedium && { utmMedium }),
+            ...(utmCampaign && { utmCampaign }),
+            ...(utmTerm && { utmTerm }),
+            ...(utmContent && { utmContent }),
           }),
-          ...(parsedUrl.searchParams.get('utm_term') && {
-            utmTerm: parsedUrl.searchParams.get('utm_term'),
-          }),
-          ...(parsedUrl.searchParams.get('utm_content') && {
-            utmContent: parsedUrl.searchParams.get('utm_content'),
-          }),
-          ...(Object.keys(properties).length > 0 && { properties }),
         };
 
-        const res = await fetch(endpoint, {
-          method: 'POST',
-          body: JSON.stringify(collectPayload),
-          headers: {
-            'Content-Type': 'application/json',
-            'x-api-key': apiKey,
-            ...(cacheRef.current && { 'x-entrolytics-cache': cacheRef.current }),
-          },
-          credentials: 'omit',
-          keepalive: true,
-        });
+        for (const recipient of recipients) {
+          const queue = getQueue();
+          for (const event of sessionEvents) {
+            queue.enqueue({ ...event, websiteId: recipient.websiteId });
+          }
 
-        const responseText = await res.text();
-        if (responseText) {
-          try {
-            const data = JSON.parse(responseText) as { cache?: string; disabled?: boolean };
-            if (data.disabled) setIsEnabled(false);
-            if (data.cache) cacheRef.current = data.cache;
-          } catch {
-            // Non-JSON response is acceptable for fire-and-forget endpoint
+          // Sampled out events still keep the session counts above accurate
+          const sampleRate = resolveSampleRate(recipient.sampling, eventType, eventName);
+          if (sampleRate < 1 && !isSampled(visitorId ?? sessionId, sampleRate)) {
+            log('Sampled out', eventName ?? eventType, recipient.websiteId);
+            continue;
           }
+
+          const sentProperties = sampleRate < 1 ? { ...properties, sampleRate } : properties;
+          queue.enqueue({
+            ...collectPayload,
+            websiteId: recipient.websiteId,
+            ...(Object.keys(sentProperties).length > 0 && { properties: sentProperties }),
+          });
+        }
+
+        // Goal events never complete goals themselves
+        if (eventType === 'pageview') {
+          if (goalTrackerRef.current) goalTrackerRef.current.pageView(parsedUrl.pathname);
+          else uncheckedGoalPathRef.current = parsedUrl.pathname;
+        } else if (eventName && eventName !== 'goal' && type !== 'identify') {
+          goalTrackerRef.current?.event(eventName, eventPayload.data);
+        }
+
+        if (type === 'identify') {
+          callPluginHook(pluginChain, log, 'onIdentify', payload as IdentifyPayload);
+        } else if (eventType === 'pageview') {
+          callPluginHook(pluginChain, log, 'onPageView', payload as EventPayload);
         }
       } catch (error) {
         log('Error sending', type, error);
       }
     },
+    [
+      websiteId,
+      storage,
+      sessionTimeout,
+      cookieDomain,
+      shareSession,
+      redactor,
+      routeMatcher,
+      maskDynamicSegments,
+      sampling,
+      destinations,
+      pluginChain,
+      log,
+      toAbsoluteUrl,
+      toValidReferrer,
+      getQueue,
+    ],
+  );
+
+  // Registered properties are loaded lazily so stored ones are ready for the first event
+  const getSuperProperties = useCallback((): EventData => {
+    if (!superPropertiesRef.current) {
+      const persist = persistSuperProperties && storage !== 'none';
+      superPropertiesRef.current = (persist && loadSuperProperties()) || {};
+    }
+    return superPropertiesRef.current;
+  }, [persistSuperProperties, storage]);
+
+  const updateSuperProperties = useCallback(
+    (next: EventData) => {
+      superPropertiesRef.current = next;
+      if (persistSuperProperties && storage !== 'none') storeSuperProperties(next);
+      log('Super properties updated', next);
+    },
+    [persistSuperProperties, storage, log],
+  );
+
+  // Send data to endpoint
+  const send = useCallback(
+    async (
+      payload: EventPayload | IdentifyPayload,
+      type: PayloadType = 'event',
+      destination?: string,
+    ): Promise<void> => {
+      if (checkTrackingDisabled()) {
+        log('Tracking disabled, skipping', type);
+        return;
+      }
+
+      if (!websiteId) {
+        log('websiteId is required for collect tracking, skipping');
+        return;
+      }
+
+      if (storageFreeWithoutProxy) {
+        log('storage="none" requires the proxy, skipping', type);
+        return;
+      }
+
+      if (!apiKey) {
+        if (!missingApiKeyWarned.current) {
+          log('apiKey is required for collect tracking, skipping until configured');
+          missingApiKeyWarned.current = true;
+        }
+        return;
+      }
+
+      if (rateLimiter) {
+        const key =
+          type === 'identify' ? 'identify' : ('name' in payload && payload.name) || 'pageview';
+        if (!rateLimiter.allow(key)) {
+          log('Rate limit reached, dropping', key);
+          return;
+        }
+      }
+
+      // Registered properties are merged first so plugins and beforeSend see them
+      const superProperties = getSuperProperties();
+      const withProperties =
+        Object.keys(superProperties).length > 0
+          ? { ...payload, data: { ...superProperties, ...payload.data } }
+          : payload;
+
+      const finalPayload = await runPluginChain(pluginChain, withProperties, type, log);
+      if (!finalPayload) return;
+
+      const category = getConsentCategory(finalPayload);
+      const status = consentRef.current[category];
+
+      if (status === 'denied') {
+        log(`${category} consent denied, skipping`, type);
+        return;
+      }
+
+      // Hold events in memory only until the visitor decides
+      if (status === 'pending') {
+        if (pendingEventsRef.current.length < MAX_PENDING_EVENTS) {
+          pendingEventsRef.current.push({
+            payload: finalPayload,
+            type,
+            category,
+            timestamp: Date.now(),
+            destination,
+          });
+        }
+        log(`${category} consent pending, holding`, type);
+        return;
+      }
+
+      dispatch(finalPayload, type, Date.now(), destination);
+    },
     [
       apiKey,
-      endpoint,
       checkTrackingDisabled,
-      beforeSend,
+      rateLimiter,
+      getSuperProperties,
+      pluginChain,
       log,
       websiteId,
-      toAbsoluteUrl,
-      toValidReferrer,
+      storageFreeWithoutProxy,
+      dispatch,
     ],
   );
 
-  // Track function with multiple overloads
-  const track = useCallback(
+  // Warn about events that do not match the tracking plan, development builds only
+  const checkEventSchema = useCallback(
+    (name: string, data?: EventData) => {
+      if (!eventSchema) return;
+      if (typeof process !== 'undefined' && process.env.NODE_ENV === 'production') return;
+
+      for (const issue of validateEvent(eventSchema, name, data)) {
+        console.warn('[Entrolytics]', issue);
+      }
+    },
+    [eventSchema],
+  );
+
+  // Track function with multiple overloads, the destination is set by forDestination
+  const trackTo = useCallback(
     async (
       nameOrPayloadOrFn?:
         | string
         | Partial<EventPayload>
         | ((props: TrackedProperties) => EventPayload),
       data?: EventData,
+      destination?: string,
     ): Promise<void> => {
       const basePayload = getPayload();
 
       if (typeof nameOrPayloadOrFn === 'function') {
-        return send(nameOrPayloadOrFn(basePayload));
+        return send(nameOrPayloadOrFn(basePayload), 'event', destination);
       }
 
       if (typeof nameOrPayloadOrFn === 'object') {
-        return send({ ...basePayload, ...nameOrPayloadOrFn });
+        if (nameOrPayloadOrFn.name)
+          checkEventSchema(nameOrPayloadOrFn.name, nameOrPayloadOrFn.data);
+        return send({ ...basePayload, ...nameOrPayloadOrFn }, 'event', destination);
       }
 
       if (typeof nameOrPayloadOrFn === 'string') {
-        return send({ ...basePayload, name: nameOrPayloadOrFn, data });
+        checkEventSchema(nameOrPayloadOrFn, data);
+        return send({ ...basePayload, name: nameOrPayloadOrFn, data }, 'event', destination);
       }
 
-      return send(basePayload);
+      return send(basePayload, 'event', destination);
     },
-    [getPayload, send],
-  ) as EntrolyticsContextValue['track'];
+    [getPayload, send, checkEventSchema],
+  );
+  const track = trackTo as EntrolyticsContextValue['track'];
 
   // Track page view
   const trackView = useCallback(
-    async (url?: string, referrer?: string): Promise<void> => {
+    async (url?: string, referrer?: string, destination?: string): Promise<void> => {
       const payload = getPayload();
       if (url) payload.url = url;
       if (referrer) payload.referrer = referrer;
-      return send(payload);
+      return send(payload, 'event', destination);
+    },
+    [getPayload, send],
+  );
+
+  // Events from built-in trackers skip the tracking plan check
+  const trackBuiltIn = useCallback(
+    async (name: string, data: EventData): Promise<void> => {
+      return send({ ...getPayload(), name, data });
     },
     [getPayload, send],
   );
+  const builtInTrackRef = useRef(trackBuiltIn);
+
+  // A string key keeps an inline goals array from resetting the tracker every render
+  const goalsKey = JSON.stringify(typeof goals === 'string' ? remoteGoals : (goals ?? []));
+
+  // Errors from the window, the error boundary and trackError share dedupe and rate limits
+  const reportError = useCallback(
+    async (error: unknown, source: ErrorSource, data?: EventData): Promise<void> => {
+      const { message, stack } = normalizeError(error);
+      const ignored = errorConfig?.ignore?.some(pattern =>
+        typeof pattern === 'string' ? message.includes(pattern) : pattern.test(message),
+      );
+      if (ignored) return;
+
+      const fingerprint = fingerprintError(message, stack);
+      if (!errorDeduper(getCurrentSessionId(storage, sessionTimeout) ?? '', fingerprint)) {
+        log('Error already reported this session', fingerprint);
+        return;
+      }
+      if (!errorLimiter.allow('error')) {
+        log('Error rate limit reached, dropping', fingerprint);
+        return;
+      }
+
+      const deploymentId =
+        errorConfig?.deploymentId ??
+        (typeof process !== 'undefined'
+          ? process.env.NEXT_PUBLIC_ENTROLYTICS_DEPLOYMENT_ID
+          : undefined);
+
+      return trackBuiltIn('js_error', {
+        message,
+        fingerprint,
+        source,
+        ...(stack && { stack: normalizeStack(stack) }),
+        ...(deploymentId && { deploymentId }),
+        ...data,
+      });
+    },
+    [errorConfig, errorDeduper, errorLimiter, storage, sessionTimeout, log, trackBuiltIn],
+  );
+
+  const trackError = useCallback(
+    (error: unknown, data?: EventData) => reportError(error, 'manual', data),
+    [reportError],
+  );
+  const reportErrorRef = useRef(reportError);
+
+  // Notify hooks when the SPA navigation handler sees a new URL
+  const onNavigate = useCallback((listener: (url: string) => void) => {
+    const listeners = navigationListenersRef.current;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
 
   // Identify function
-  const identify = useCallback(
-    async (idOrData?: string | EventData, data?: EventData): Promise<void> => {
+  const identifyTo = useCallback(
+    async (
+      idOrData?: string | EventData,
+      data?: EventData,
+      destination?: string,
+    ): Promise<void> => {
       const payload = getPayload();
 
       if (typeof idOrData === 'string') {
         setIdentity(idOrData);
         payload.id = idOrData;
         cacheRef.current = undefined; // Reset cache on identify
-        return send({ ...payload, data }, 'identify');
+        return send({ ...payload, data }, 'identify', destination);
       }
 
       if (typeof idOrData === 'object') {
-        return send({ ...payload, data: idOrData }, 'identify');
+        return send({ ...payload, data: idOrData }, 'identify', destination);
       }
 
-      return send(payload, 'identify');
+      return send(payload, 'identify', destination);
     },
     [getPayload, send],
-  ) as EntrolyticsContextValue['identify'];
+  );
+  const identify = identifyTo as EntrolyticsContextValue['identify'];
 
   // Track revenue
   const trackRevenue = useCallback(
-    async (eventName: string, revenue: number, currency = 'USD'): Promise<void> => {
+    async (
+      eventName: string,
+      revenue: number,
+      currency = 'USD',
+      destination?: string,
+    ): Promise<void> => {
       if (!Number.isFinite(revenue)) {
         log('Invalid revenue amount', revenue);
         return;
       }
 
       const payload = getPayload();
-      return send({
-        ...payload,
-        name: eventName,
-        data: {
-          revenue,
-          currency: currency.toUpperCase().slice(0, 3),
+      return send(
+        {
+          ...payload,
+          name: eventName,
+          data: {
+            revenue,
+            currency: currency.toUpperCase().slice(0, 3),
+          },
         },
-      });
+        'event',
+        destination,
+      );
     },
     [getPayload, send, log],
   );
 
   // Track outbound link
   const trackOutboundLink = useCallback(
-    async (url: string, data?: EventData): Promise<void> => {
+    async (url: string, data?: EventData, destination?: string): Promise<void> => {
       const payload = getPayload();
-      return send({
-        ...payload,
-        name: outboundLinkEvent,
-        data: {
-          ...data,
-          url,
+      return send(
+        {
+          ...payload,
+          name: outboundLinkEvent,
+          data: {
+            ...data,
+            url,
+          },
         },
-      });
+        'event',
+        destination,
+      );
     },
     [getPayload, send, outboundLinkEvent],
   );
 
+  // The tracking functions for useEntrolytics(name), sending to one destination only
+  const forDestination = useCallback(
+    (name: string): DestinationMethods => ({
+      track: ((nameOrPayloadOrFn, data) =>
+        trackTo(nameOrPayloadOrFn, data, name)) as DestinationMethods['track'],
+      trackView: (url, referrer) => trackView(url, referrer, name),
+      identify: ((idOrData, data) =>
+        identifyTo(idOrData, data, name)) as DestinationMethods['identify'],
+      trackRevenue: (eventName, revenue, currency) =>
+        trackRevenue(eventName, revenue, currency, name),
+      trackOutboundLink: (url, data) => trackOutboundLink(url, data, name),
+    }),
+    [trackTo, trackView, identifyTo, trackRevenue, trackOutboundLink],
+  );
+
   // Set tag
   const setTag = useCallback((tag: string) => {
     setCurrentTag(tag);
   }, []);
 
+  const register = useCallback(
+    (properties: EventData) => {
+      updateSuperProperties({ ...getSuperProperties(), ...properties });
+    },
+    [getSuperProperties, updateSuperProperties],
+  );
+
+  const registerOnce = useCallback(
+    (properties: EventData) => {
+      updateSuperProperties({ ...properties, ...getSuperProperties() });
+    },
+    [getSuperProperties, updateSuperProperties],
+  );
+
+  const unregister = useCallback(
+    (key: string) => {
+      const { [key]: _removed, ...rest } = getSuperProperties();
+      updateSuperProperties(rest);
+    },
+    [getSuperProperties, updateSuperProperties],
+  );
+
+  // Update consent, then release or discard events held while it was pending
+  const setConsent = useCallback(
+    (update: ConsentStatus | Partial<ConsentState>) => {
+      const next = resolveConsent(update, consentRef.current);
+      consentRef.current = next;
+      setConsentState(next);
+      if (storage !== 'none') storeConsent(next);
+
+      const held = pendingEventsRef.current;
+      pendingEventsRef.current = held.filter(event => next[event.category] === 'pending');
+
+      for (const event of held) {
+        if (next[event.category] === 'granted') {
+          dispatch(event.payload, event.type, event.timestamp, event.destination);
+        }
+      }
+
+      log('Consent updated', next);
+    },
+    [storage, dispatch, log],
+  ) as EntrolyticsContextValue['setConsent'];
+
   // Generate enhanced identity data
   const generateEnhancedIdentity = useCallback(
     (data?: Record<string, string | number | boolean | undefined>): EnhancedIdentityData => {
@@ -458,68 +1093,112 @@ export function EntrolyticsProvider({
     [],
   );
 
+  // Restore the visitor's stored consent decision on mount, where categories the
+  // `consent` prop grants or denies win. Later prop changes apply like setConsent
+  useEffect(() => {
+    const value = JSON.parse(consentKey) as ConsentStatus | Partial<ConsentState> | null;
+
+    if (appliedConsentKeyRef.current === undefined) {
+      appliedConsentKeyRef.current = consentKey;
+      const stored = loadStoredConsent();
+      if (stored) {
+        const next = resolveConsent(
+          { ...stored, ...decidedConsent(value ?? undefined) },
+          consentRef.current,
+        );
+        consentRef.current = next;
+        setConsentState(next);
+      }
+      return;
+    }
+
+    if (appliedConsentKeyRef.current === consentKey) return;
+    appliedConsentKeyRef.current = consentKey;
+    if (value) setConsent(resolveConsent(value, consentRef.current));
+  }, [consentKey, setConsent]);
+
   // Initialize URL tracking
   useEffect(() => {
     if (typeof window === 'undefined') return;
 
     const { location, document } = window;
-    let url = location.pathname + location.search + location.hash;
-
-    if (excludeSearch) {
-      const urlObj = new URL(url, location.origin);
-      urlObj.search = '';
-      url = urlObj.pathname + urlObj.hash;
-    }
 
-    if (excludeHash) {
-      const urlObj = new URL(url, location.origin);
-      urlObj.hash = '';
-      url = urlObj.pathname + urlObj.search;
+    // Hide a cross-domain linker token before the first page view records the URL
+    const linkerToken = new URL(location.href).searchParams.get(LINKER_PARAM);
+    if (linkerToken !== null) {
+      if (linkerEndpoint) {
+        linkerCheckRef.current = verifySignedToken(linkerEndpoint, linkerToken).then(ids => {
+          linkedIdsRef.current = ids ?? null;
+        });
+      } else {
+        linkedIdsRef.current = readLinkerToken(location.href) ?? null;
+      }
+      history.replaceState(history.state, '', stripLinkerParam(location.href));
     }
 
-    currentUrlRef.current = url;
+    currentUrlRef.current = getLocationUrl(excludeSearch, excludeHash);
     currentRefRef.current = document.referrer.startsWith(location.origin) ? '' : document.referrer;
+    pageTitleRef.current = document.title;
+
+    // Hold the first page view until the proxy checked a signed token, the ref
+    // outlives the URL cleanup when Strict Mode runs this effect twice
+    const linkerCheck = linkerCheckRef.current;
+    if (linkerCheck) {
+      void linkerCheck.then(() => setIsReady(true));
+    } else {
+      setIsReady(true);
+    }
+  }, [excludeSearch, excludeHash, linkerEndpoint]);
 
-    setIsReady(true);
-  }, [excludeSearch, excludeHash]);
-
-  // Auto-track initial page view
+  // Auto-track initial page view, once per mount even when track changes identity
   useEffect(() => {
-    if (!isReady || !autoTrack || checkTrackingDisabled()) return;
+    if (!isReady || !autoTrack || initialViewSentRef.current || checkTrackingDisabled()) return;
+    initialViewSentRef.current = true;
     void track();
   }, [isReady, autoTrack, checkTrackingDisabled, track]);
 
-  // Handle history changes for SPA navigation
-  useEffect(() => {
-    if (typeof window === 'undefined' || !autoTrack) return;
+  // Record a client-side navigation to the current location, once per distinct URL
+  const recordNavigation = useCallback(
+    (route?: string) => {
+      // Adapters that know the route template, like the Pages Router's, pass it along
+      currentRouteRef.current = route;
 
-    const handleNavigation = () => {
-      const { location } = window;
       const previousUrl = currentUrlRef.current;
+      // The initial page view is tracked separately once the URL is initialized
+      if (!autoTrack || !previousUrl) return;
 
-      let url = location.pathname + location.search + location.hash;
+      const url = getLocationUrl(excludeSearch, excludeHash);
+      if (url === previousUrl) return;
 
-      if (excludeSearch) {
-        const urlObj = new URL(url, location.origin);
-        urlObj.search = '';
-        url = urlObj.pathname + urlObj.hash;
-      }
+      // A page view still waiting for its title goes out before the next one
+      pendingViewRef.current?.();
 
-      if (excludeHash) {
-        const urlObj = new URL(url, location.origin);
-        urlObj.hash = '';
-        url = urlObj.pathname + urlObj.search;
+      // Runs before the URL changes so the event belongs to the page being left
+      if (engagementRef.current) {
+        void builtInTrackRef.current('page_leave', {
+          engagedMs: engagementRef.current.reset(),
+        });
       }
+      currentRefRef.current = previousUrl;
+      currentUrlRef.current = url;
+      for (const listener of navigationListenersRef.current) listener(url);
+
+      pendingViewRef.current = whenTitleSettles(pageTitleRef.current, () => {
+        pendingViewRef.current = null;
+        pageTitleRef.current = document.title;
+        void trackView(url, previousUrl);
+      });
+    },
+    [autoTrack, excludeSearch, excludeHash, trackView],
+  );
 
-      if (url !== previousUrl) {
-        currentRefRef.current = previousUrl;
-        currentUrlRef.current = url;
-        // Small delay to ensure page title updates
-        setTimeout(() => track(), 300);
-      }
-    };
+  const attachRouter = useCallback(() => setRouterAttached(true), []);
 
-    // Hook into history API
+  // Outside the Next.js router, fall back to patching the history API
+  useEffect(() => {
+    if (typeof window === 'undefined' || !autoTrack || routerAttached) return;
+
+    const handleNavigation = () => recordNavigation();
     const originalPushState = history.pushState;
     const originalReplaceState = history.replaceState;
 
@@ -540,13 +1219,171 @@ export function EntrolyticsProvider({
       history.replaceState = originalReplaceState;
       window.removeEventListener('popstate', handleNavigation);
     };
-  }, [autoTrack, excludeSearch, excludeHash, track]);
+  }, [autoTrack, routerAttached, recordNavigation]);
 
-  // Setup outbound link tracking
+  // Flush queued events with sendBeacon when the page is hidden or unloaded
   useEffect(() => {
-    if (!trackOutboundLinks || typeof window === 'undefined') return;
+    if (typeof window === 'undefined') return;
+
+    const flushOnExit = () => {
+      void queueRef.current?.flush({ beacon: true });
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flushOnExit();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', flushOnExit);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', flushOnExit);
+    };
+  }, []);
+
+  // Measure engaged time and report it when the page is left
+  useEffect(() => {
+    if (typeof window === 'undefined' || !engagementEnabled) return;
+
+    const timer = createEngagementTimer({
+      idleTimeout,
+      heartbeatInterval,
+      onHeartbeat: engagedMs => {
+        void builtInTrackRef.current('page_heartbeat', { engagedMs });
+      },
+    });
+    engagementRef.current = timer;
+
+    // The plugin chain settles in microtasks, so the event still makes the beacon
+    const handlePageHide = () => {
+      void builtInTrackRef
+        .current('page_leave', { engagedMs: timer.reset() })
+        .then(() => queueRef.current?.flush({ beacon: true }));
+    };
+
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      timer.dispose();
+      if (engagementRef.current === timer) engagementRef.current = null;
+    };
+  }, [engagementEnabled, idleTimeout, heartbeatInterval]);
+
+  // Report window scroll depth milestones once per page view
+  useEffect(() => {
+    if (typeof window === 'undefined' || !scrollDepthEnabled) return;
+
+    const scroller = createScrollTracker({
+      thresholds: scrollThresholdKey
+        ? scrollThresholdKey.split(',').map(Number)
+        : DEFAULT_SCROLL_THRESHOLDS,
+      onMilestone: depth => {
+        void builtInTrackRef.current('scroll_depth', { depth });
+      },
+    });
+    const unsubscribe = onNavigate(() => scroller.reset());
+
+    return () => {
+      unsubscribe();
+      scroller.dispose();
+    };
+  }, [scrollDepthEnabled, scrollThresholdKey, onNavigate]);
+
+  // Capture uncaught errors and unhandled rejections
+  useEffect(() => {
+    if (typeof window === 'undefined' || !errorsEnabled) return;
+
+    return captureGlobalErrors((error, source) => {
+      void reportErrorRef.current(error, source);
+    });
+  }, [errorsEnabled]);
+
+  // Load goals served as JSON by a route
+  useEffect(() => {
+    if (typeof window === 'undefined' || typeof goals !== 'string') return;
+
+    const controller = new AbortController();
+    fetch(goals, { signal: controller.signal })
+      .then(res => (res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`))))
+      .then(json => setRemoteGoals(parseGoals(json)))
+      .catch(error => {
+        if (!controller.signal.aborted) log('Failed to load goals', error);
+      });
+
+    return () => controller.abort();
+  }, [goals, log]);
+
+  // Match click and form submission goals, page view and event goals are checked on dispatch
+  useEffect(() => {
+    const list = JSON.parse(goalsKey) as GoalDefinition[];
+    if (typeof window === 'undefined' || list.length === 0) return;
+
+    const goalTracker = createGoalTracker({
+      goals: list,
+      getSessionId: () => getCurrentSessionId(storage, sessionTimeout) ?? '',
+      persist: storage !== 'none',
+      onGoal: goal => {
+        void builtInTrackRef.current('goal', {
+          goalId: goal.id,
+          ...(goal.value !== undefined && { value: goal.value }),
+        });
+      },
+    });
+    goalTrackerRef.current = goalTracker;
+
+    // Goals fetched from a route arrive after the landing page view was tracked
+    if (uncheckedGoalPathRef.current) {
+      goalTracker.pageView(uncheckedGoalPathRef.current);
+      uncheckedGoalPathRef.current = undefined;
+    }
 
     const handleClick = (e: MouseEvent) => {
+      if (e.target instanceof Element) goalTracker.click(e.target);
+    };
+    const handleSubmit = (e: SubmitEvent) => {
+      if (e.target instanceof Element) goalTracker.submit(e.target);
+    };
+    const unsubscribe = onNavigate(goalTracker.reset);
+
+    document.addEventListener('click', handleClick, true);
+    document.addEventListener('submit', handleSubmit, true);
+    return () => {
+      document.removeEventListener('click', handleClick, true);
+      document.removeEventListener('submit', handleSubmit, true);
+      unsubscribe();
+      if (goalTrackerRef.current === goalTracker) goalTrackerRef.current = undefined;
+    };
+  }, [goalsKey, storage, sessionTimeout, onNavigate]);
+
+  // One global click listener for outbound links and frustration signals
+  useEffect(() => {
+    if (typeof window === 'undefined' || (!trackOutboundLinks && !frustrationEnabled)) return;
+
+    const detector = frustrationEnabled
+      ? createFrustrationDetector({
+          rageClickCount,
+          rageClickWindow,
+          rageClickRadius,
+          deadClickTimeout,
+          ignoreRequests: [endpoint, batchEndpoint].map(
+            url => new URL(url, window.location.href).href,
+          ),
+          onRageClick: (selector, clicks) => {
+            void builtInTrackRef.current('rage_click', { selector, clicks });
+          },
+          onDeadClick: selector => {
+            void builtInTrackRef.current('dead_click', { selector });
+          },
+        })
+      : undefined;
+    const unsubscribe = detector ? onNavigate(detector.markActivity) : undefined;
+
+    const handleClick = (e: MouseEvent) => {
+      detector?.handleClick(e);
+      if (!trackOutboundLinks) return;
+
       const target = (e.target as Element)?.closest('a');
       if (!target) return;
 
@@ -564,8 +1401,95 @@ export function EntrolyticsProvider({
     };
 
     document.addEventListener('click', handleClick, true);
-    return () => document.removeEventListener('click', handleClick, true);
-  }, [trackOutboundLinks, trackOutboundLink]);
+    return () => {
+      document.removeEventListener('click', handleClick, true);
+      unsubscribe?.();
+      detector?.dispose();
+    };
+  }, [
+    trackOutboundLinks,
+    trackOutboundLink,
+    frustrationEnabled,
+    rageClickCount,
+    rageClickWindow,
+    rageClickRadius,
+    deadClickTimeout,
+    endpoint,
+    batchEndpoint,
+    onNavigate,
+  ]);
+
+  // Carry the visitor and session to linked domains
+  useEffect(() => {
+    if (!linkDomains || linkDomains.length === 0 || typeof window === 'undefined') return;
+    if (storage === 'none') return;
+
+    const signedLinker = linkerEndpoint ? createSignedLinker(linkerEndpoint) : undefined;
+
+    const findLink = (e: Event): HTMLAnchorElement | undefined => {
+      if (checkTrackingDisabled() || consent.analytics !== 'granted') return undefined;
+
+      const target = (e.target as Element)?.closest?.('a');
+      if (!target?.href) return undefined;
+
+      try {
+        const url = new URL(target.href);
+        if (url.host === window.location.host) return undefined;
+        return matchesLinkDomain(url.hostname, linkDomains) ? target : undefined;
+      } catch {
+        // Invalid URL, skip
+        return undefined;
+      }
+    };
+
+    const handleClick = (e: MouseEvent) => {
+      const target = findLink(e);
+      if (!target) return;
+
+      const visitorId = getOrCreateVisitorId(storage, cookieDomain);
+      if (!visitorId) return;
+
+      // Without a signed token in time the link is left undecorated, the destination
+      // would reject an unsigned one
+      if (signedLinker) {
+        const token = signedLinker.current(visitorId);
+        if (token) target.href = setLinkerToken(target.href, token);
+        return;
+      }
+
+      target.href = decorateUrl(target.href, {
+        visitorId,
+        sessionId: getCurrentSessionId(storage, sessionTimeout),
+      });
+    };
+
+    // The proxy signs the IDs in the identity cookies, so fetch a token before the click
+    const handleIntent = (e: Event) => {
+      if (!signedLinker || !findLink(e)) return;
+      const visitorId = getOrCreateVisitorId(storage, cookieDomain);
+      if (visitorId) signedLinker.prefetch(visitorId);
+    };
+
+    // auxclick covers middle-click opening the link in a new tab
+    document.addEventListener('click', handleClick, true);
+    document.addEventListener('auxclick', handleClick, true);
+    document.addEventListener('pointerover', handleIntent, true);
+    document.addEventListener('focusin', handleIntent, true);
+    return () => {
+      document.removeEventListener('click', handleClick, true);
+      document.removeEventListener('auxclick', handleClick, true);
+      document.removeEventListener('pointerover', handleIntent, true);
+      document.removeEventListener('focusin', handleIntent, true);
+    };
+  }, [
+    linkDomains,
+    linkerEndpoint,
+    storage,
+    cookieDomain,
+    sessionTimeout,
+    consent.analytics,
+    checkTrackingDisabled,
+  ]);
 
   // Expose global entrolytics object
   useEffect(() => {
@@ -600,6 +1524,30 @@ export function EntrolyticsProvider({
       scriptName,
       debug,
       useEdgeRuntime,
+      queueSize,
+      flushInterval,
+      maxPayloadBytes,
+      outbox,
+      consent,
+      storage,
+      sessionTimeout,
+      cookieDomain,
+      shareSession,
+      linkDomains,
+      redact,
+      plugins,
+      persistSuperProperties,
+      eventSchema,
+      sampling,
+      rateLimit,
+      trackEngagement,
+      trackScrollDepth,
+      trackErrors,
+      trackFrustration,
+      routes,
+      maskDynamicSegments,
+      destinations,
+      goals,
     }),
     [
       websiteId,
@@ -619,9 +1567,47 @@ export function EntrolyticsProvider({
       scriptName,
       debug,
       useEdgeRuntime,
+      queueSize,
+      flushInterval,
+      maxPayloadBytes,
+      outbox,
+      consent,
+      storage,
+      sessionTimeout,
+      cookieDomain,
+      shareSession,
+      linkDomains,
+      redact,
+      plugins,
+      persistSuperProperties,
+      eventSchema,
+      sampling,
+      rateLimit,
+      trackEngagement,
+      trackScrollDepth,
+      trackErrors,
+      trackFrustration,
+      routes,
+      maskDynamicSegments,
+      destinations,
+      goals,
     ],
   );
 
+  const getContext = useCallback(() => contextRef.current as EntrolyticsContextValue, []);
+  const pluginApi = useMemo<PluginApi>(() => ({ getContext, log }), [getContext, log]);
+
+  // Later plugins win on method name collisions
+  const methods = useMemo(() => {
+    const bound: Record<string, PluginMethod> = {};
+    for (const plugin of plugins ?? []) {
+      for (const [name, method] of Object.entries(plugin.methods ?? {})) {
+        bound[name] = (...args) => method(pluginApi, ...(args as never[]));
+      }
+    }
+    return bound;
+  }, [plugins, pluginApi]);
+
   const value = useMemo<EntrolyticsContextValue>(
     () => ({
       track,
@@ -630,7 +1616,17 @@ export function EntrolyticsProvider({
       trackRevenue,
       trackOutboundLink,
       setTag,
+      register,
+      registerOnce,
+      unregister,
+      setConsent,
+      flush,
+      trackError,
+      onNavigate,
+      forDestination,
+      methods,
       generateEnhancedIdentity,
+      consent,
       isReady,
       isEnabled,
       config,
@@ -642,12 +1638,41 @@ export function EntrolyticsProvider({
       trackRevenue,
       trackOutboundLink,
       setTag,
+      register,
+      registerOnce,
+      unregister,
+      setConsent,
+      flush,
+      trackError,
+      onNavigate,
+      forDestination,
+      methods,
       generateEnhancedIdentity,
+      consent,
       isReady,
       isEnabled,
       config,
     ],
   );
 
-  return <EntrolyticsContext.Provider value={value}>{children}</EntrolyticsContext.Provider>;
+  // Keep the live context and plugin chain available to plugin and built-in tracker callbacks
+  useEffect(() => {
+    contextRef.current = value;
+    pluginChainRef.current = pluginChain;
+    builtInTrackRef.current = trackBuiltIn;
+    reportErrorRef.current = reportError;
+    destinationTargetsRef.current = destinationTargets;
+  }, [value, pluginChain, trackBuiltIn, reportError, destinationTargets]);
+
+  // Initialize plugins once the context is available
+  useEffect(() => initPlugins(plugins ?? [], pluginApi, log), [plugins, pluginApi, log]);
+
+  return (
+    <EntrolyticsContext.Provider value={value}>
+      <BuiltInTrackContext.Provider value={trackBuiltIn}>
+        {autoTrack && <RouterAdapter onAttach={attachRouter} onNavigate={recordNavigation} />}
+        {children}
+      </BuiltInTrackContext.Provider>
+    </EntrolyticsContext.Provider>
+  );
 }
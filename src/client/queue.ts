@@ -0,0 +1,294 @@
+import type { EventPayload as SharedEventPayload } from '@entrolytics/shared';
+
+export type CollectPayload = Omit<SharedEventPayload, 'visitorId'> & {
+  /** Persistent visitor ID, omitted in storage-free mode so the server derives one */
+  visitorId?: string;
+  /** Client time the event was created (ms since epoch) */
+  timestamp?: number;
+};
+
+export interface CollectResponse {
+  /** Cache token to send with subsequent requests */
+  cache?: string;
+  /** Server-side kill switch for this website */
+  disabled?: boolean;
+}
+
+/** Where a group of events is delivered */
+export interface DeliveryTarget {
+  /** Single-event collect endpoint */
+  endpoint: string;
+  /** Batch collect endpoint */
+  batchEndpoint: string;
+  /** Public collection API key */
+  apiKey: string;
+}
+
+export interface EventQueueOptions {
+  /** Single-event collect endpoint */
+  endpoint: string;
+  /** Batch collect endpoint */
+  batchEndpoint: string;
+  /** Public collection API key */
+  apiKey: string;
+  /** Flush once this many events are buffered */
+  maxSize: number;
+  /** Flush buffered events after this many milliseconds */
+  flushInterval: number;
+  /** Split batches so that no request body exceeds this many bytes */
+  maxPayloadBytes: number;
+  /**
+   * Returns another target for an event, such as an extra destination on its own host.
+   * Events without one go to the default endpoint.
+   */
+  getTarget?: (event: CollectPayload) => DeliveryTarget | undefined;
+  /** Returns the current cache token, sent to the default endpoint only */
+  getCacheToken?: () => string | undefined;
+  /** Called with the parsed collect response of fetch deliveries to the default endpoint */
+  onResponse?: (data: CollectResponse) => void;
+  /** Called with events that could not be delivered (offline, network error, 5xx or 429) */
+  onDeliveryFailure?: (events: CollectPayload[]) => void;
+  /** Called with the number of delivered events after each flush */
+  onFlush?: (delivered: number) => void;
+  /** Debug logger */
+  log?: (...args: unknown[]) => void;
+}
+
+export interface FlushOptions {
+  /** Deliver with navigator.sendBeacon because the page is being hidden or unloaded */
+  beacon?: boolean;
+}
+
+export interface EventQueue {
+  /** Buffer an event for the next flush */
+  enqueue: (event: CollectPayload) => void;
+  /** Deliver all buffered events */
+  flush: (options?: FlushOptions) => Promise<void>;
+  /** Deliver events immediately without buffering, resolving to the events that failed */
+  deliver: (events: CollectPayload[], options?: FlushOptions) => Promise<CollectPayload[]>;
+  /** Number of buffered events */
+  size: () => number;
+  /** Flush remaining events and stop the flush timer */
+  dispose: () => void;
+}
+
+const encoder = typeof TextEncoder !== 'undefined' ? new TextEncoder() : undefined;
+
+function byteLength(value: string): number {
+  return encoder ? encoder.encode(value).length : value.length;
+}
+
+/**
+ * Split events into chunks whose serialized batch envelope stays below maxBytes.
+ * A single event larger than the limit is still sent on its own.
+ */
+function chunkBySize(
+  events: CollectPayload[],
+  maxBytes: number,
+  overhead: number,
+): CollectPayload[][] {
+  const chunks: CollectPayload[][] = [];
+  let current: CollectPayload[] = [];
+  let currentBytes = overhead;
+
+  for (const event of events) {
+    const size = byteLength(JSON.stringify(event)) + 1;
+
+    if (current.length > 0 && currentBytes + size > maxBytes) {
+      chunks.push(current);
+      current = [];
+      currentBytes = overhead;
+    }
+
+    current.push(event);
+    currentBytes += size;
+  }
+
+  if (current.length > 0) chunks.push(current);
+
+  return chunks;
+}
+
+/**
+ * Creates an in-memory event queue that batches collect payloads.
+ *
+ * Events are flushed when `maxSize` is reached or `flushInterval` elapses.
+ * Flushes triggered while the page is being hidden use `navigator.sendBeacon`,
+ * falling back to a `keepalive` fetch when the beacon is rejected.
+ */
+export function createEventQueue(options: EventQueueOptions): EventQueue {
+  const {
+    endpoint,
+    batchEndpoint,
+    apiKey,
+    maxSize,
+    flushInterval,
+    maxPayloadBytes,
+    getTarget,
+    getCacheToken,
+    onResponse,
+    onDeliveryFailure,
+    onFlush,
+    log = () => {},
+  } = options;
+
+  const defaultTarget: DeliveryTarget = { endpoint, batchEndpoint, apiKey };
+  let buffer: CollectPayload[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const clearTimer = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const sendWithFetch = async (
+    events: CollectPayload[],
+    target: DeliveryTarget,
+    keepalive: boolean,
+  ): Promise<void> => {
+    const isBatch = events.length > 1;
+    const isDefault = target === defaultTarget;
+    const cacheToken = isDefault ? getCacheToken?.() : undefined;
+
+    const res = await fetch(isBatch ? target.batchEndpoint : target.endpoint, {
+      method: 'POST',
+      body: JSON.stringify(isBatch ? { events } : events[0]),
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': target.apiKey,
+        ...(cacheToken && { 'x-entrolytics-cache': cacheToken }),
+      },
+      credentials: 'omit',
+      keepalive,
+    });
+
+    if (res.status >= 500 || res.status === 429) {
+      throw new Error(`HTTP ${res.status}`);
+    }
+    // Rejected events would be rejected again, so they are not retried
+    if (res.status >= 400) log('Collector rejected events', res.status, events.length);
+
+    const responseText = await res.text();
+    if (responseText && isDefault) {
+      try {
+        onResponse?.(JSON.parse(responseText) as CollectResponse);
+      } catch {
+        // Non-JSON response is acceptable for fire-and-forget endpoint
+      }
+    }
+  };
+
+  const sendWithBeacon = (events: CollectPayload[], target: DeliveryTarget): boolean => {
+    if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') {
+      return false;
+    }
+
+    // sendBeacon cannot set headers, so the API key travels in the envelope.
+    // text/plain keeps the request CORS-safelisted and avoids a preflight.
+    const body = new Blob([JSON.stringify({ apiKey: target.apiKey, events })], {
+      type: 'text/plain;charset=UTF-8',
+    });
+
+    try {
+      return navigator.sendBeacon(target.batchEndpoint, body);
+    } catch {
+      return false;
+    }
+  };
+
+  const deliverChunk = async (
+    events: CollectPayload[],
+    target: DeliveryTarget,
+    beacon: boolean,
+  ): Promise<boolean> => {
+    try {
+      if (beacon && sendWithBeacon(events, target)) {
+        log('Sent batch via sendBeacon', events.length);
+        return true;
+      }
+
+      await sendWithFetch(events, target, beacon);
+      log('Sent batch', events.length);
+      return true;
+    } catch (error) {
+      log('Error sending batch', error);
+      return false;
+    }
+  };
+
+  // Resolves to the events that could not be delivered
+  const deliver = async (
+    events: CollectPayload[],
+    { beacon = false }: FlushOptions = {},
+  ): Promise<CollectPayload[]> => {
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      log('Offline, deferring events', events.length);
+      return events;
+    }
+
+    // Each request goes to a single target with a single API key
+    const groups = new Map<DeliveryTarget, CollectPayload[]>();
+    for (const event of events) {
+      const target = getTarget?.(event) ?? defaultTarget;
+      const group = groups.get(target);
+      if (group) group.push(event);
+      else groups.set(target, [event]);
+    }
+
+    const chunks = [...groups].flatMap(([target, group]) => {
+      const overhead = byteLength(JSON.stringify({ apiKey: target.apiKey, events: [] }));
+      return chunkBySize(group, maxPayloadBytes, overhead).map(chunk => ({
+        target,
+        events: chunk,
+      }));
+    });
+    const results = await Promise.all(
+      chunks.map(chunk => deliverChunk(chunk.events, chunk.target, beacon)),
+    );
+
+    return chunks.filter((_, index) => !results[index]).flatMap(chunk => chunk.events);
+  };
+
+  const flush = async ({ beacon = false }: FlushOptions = {}): Promise<void> => {
+    clearTimer();
+    if (buffer.length === 0) return;
+
+    const events = buffer;
+    buffer = [];
+
+    const failed = await deliver(events, { beacon });
+    if (failed.length > 0) onDeliveryFailure?.(failed);
+    if (failed.length < events.length) onFlush?.(events.length - failed.length);
+  };
+
+  const enqueue = (event: CollectPayload) => {
+    buffer.push(event);
+
+    if (buffer.length >= maxSize) {
+      void flush();
+      return;
+    }
+
+    if (!timer) {
+      timer = setTimeout(() => {
+        timer = null;
+        void flush();
+      }, flushInterval);
+    }
+  };
+
+  const dispose = () => {
+    clearTimer();
+    void flush({ beacon: true });
+  };
+
+  return {
+    enqueue,
+    flush,
+    deliver,
+    size: () => buffer.length,
+    dispose,
+  };
+}
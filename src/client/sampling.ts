@@ -0,0 +1,63 @@
+import { fnv1a } from '../hash';
+import type { RateLimitConfig, SamplingConfig } from '../types';
+
+const DEFAULT_RATE_LIMIT = 20;
+const DEFAULT_RATE_WINDOW = 1000;
+
+function clampRate(rate: number | undefined): number {
+  if (typeof rate !== 'number' || Number.isNaN(rate)) return 1;
+  return Math.min(1, Math.max(0, rate));
+}
+
+/**
+ * Sample rate for an event, a rate for its name wins over the rate for its type.
+ */
+export function resolveSampleRate(
+  sampling: SamplingConfig | undefined,
+  eventType: 'pageview' | 'custom_event',
+  eventName?: string,
+): number {
+  if (!sampling) return 1;
+  if (eventName && sampling.events && eventName in sampling.events) {
+    return clampRate(sampling.events[eventName]);
+  }
+  return clampRate(eventType === 'pageview' ? sampling.pageview : sampling.event);
+}
+
+/**
+ * Deterministic sampling decision. The bucket depends only on the visitor so a
+ * visitor kept at 10% is also kept for every event sampled at 10% or more, which
+ * keeps funnels across differently sampled events consistent.
+ */
+export function isSampled(key: string, rate: number): boolean {
+  if (rate >= 1) return true;
+  if (rate <= 0) return false;
+  return fnv1a(key) / 0x100000000 < rate;
+}
+
+export interface RateLimiter {
+  /** Returns false once `key` has been seen `limit` times in the current window */
+  allow: (key: string, now?: number) => boolean;
+}
+
+/**
+ * Fixed-window counter per key, meant to stop runaway loops such as a component
+ * tracking on every render rather than to shape normal traffic.
+ */
+export function createRateLimiter(config: RateLimitConfig = {}): RateLimiter {
+  const limit = Math.max(1, config.limit ?? DEFAULT_RATE_LIMIT);
+  const windowMs = Math.max(1, config.window ?? DEFAULT_RATE_WINDOW);
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return {
+    allow(key, now = Date.now()) {
+      const current = windows.get(key);
+      if (!current || now - current.start >= windowMs) {
+        windows.set(key, { start: now, count: 1 });
+        return true;
+      }
+      current.count++;
+      return current.count <= limit;
+    },
+  };
+}
@@ -0,0 +1,80 @@
+export const DEFAULT_SCROLL_THRESHOLDS = [25, 50, 75, 100];
+
+export interface ScrollTrackerOptions {
+  /** Scroll container, the window when omitted */
+  target?: Element | null;
+  /** Percentages that emit a milestone */
+  thresholds: number[];
+  /** Called once per threshold until the next reset */
+  onMilestone: (depth: number) => void;
+}
+
+export interface ScrollTracker {
+  /** Forget reached thresholds, for a new page view */
+  reset: () => void;
+  /** Remove listeners */
+  dispose: () => void;
+}
+
+function readDepth(target: Element | null | undefined): number {
+  const top = target ? target.scrollTop : window.scrollY;
+  const viewport = target ? target.clientHeight : window.innerHeight;
+  const height = target ? target.scrollHeight : document.documentElement.scrollHeight;
+
+  // Allow a pixel of rounding so the bottom of the page always reads as 100%
+  if (height <= 0 || top + viewport >= height - 1) return 100;
+  return Math.floor(((top + viewport) / height) * 100);
+}
+
+/**
+ * Emits scroll depth milestones for the window or a scroll container. Depth is
+ * measured against the current height on every scroll, so content that loads
+ * later lowers the depth instead of skipping thresholds. It is also measured on
+ * creation, after a reset and when the layout resizes, so a page that fits the
+ * viewport reaches 100% without scrolling.
+ */
+export function createScrollTracker(options: ScrollTrackerOptions): ScrollTracker {
+  const { target, onMilestone } = options;
+  const thresholds = [...new Set(options.thresholds)]
+    .filter(threshold => threshold > 0 && threshold <= 100)
+    .toSorted((a, b) => a - b);
+  const reached = new Set<number>();
+  let frame: number | null = null;
+
+  const check = () => {
+    frame = null;
+    const depth = readDepth(target);
+    for (const threshold of thresholds) {
+      if (threshold > depth) break;
+      if (reached.has(threshold)) continue;
+      reached.add(threshold);
+      onMilestone(threshold);
+    }
+  };
+
+  // Batched to the next frame, which also lets a new page render before it is measured
+  const scheduleCheck = () => {
+    frame ??= requestAnimationFrame(check);
+  };
+
+  const scroller: Element | Window = target ?? window;
+  scroller.addEventListener('scroll', scheduleCheck, { passive: true });
+
+  const resizeObserver =
+    typeof ResizeObserver !== 'undefined' ? new ResizeObserver(scheduleCheck) : null;
+  resizeObserver?.observe(target ?? document.documentElement);
+
+  scheduleCheck();
+
+  return {
+    reset() {
+      reached.clear();
+      scheduleCheck();
+    },
+    dispose() {
+      if (frame !== null) cancelAnimationFrame(frame);
+      scroller.removeEventListener('scroll', scheduleCheck);
+      resizeObserver?.disconnect();
+    },
+  };
+}
@@ -0,0 +1,51 @@
+import { fnv1a } from './hash';
+import type { ExperimentConfig } from './types';
+
+/** Query parameter that forces variants, as `?entro_variant=experiment:variant` */
+export const VARIANT_PARAM = 'entro_variant';
+/** Cookie holding the variants `withEntrolyticsExperiments` assigned at the edge */
+export const EXPERIMENT_COOKIE = '__entro_exp';
+
+/**
+ * Pick a variant for a visitor. The same visitor always gets the same variant of an
+ * experiment, and hashing the key in keeps experiments independent of each other.
+ * Without weights the variants split traffic evenly.
+ */
+export function assignVariant(
+  visitorId: string,
+  key: string,
+  { variants, weights }: ExperimentConfig,
+): string | undefined {
+  if (variants.length === 0) return undefined;
+
+  const shares = variants.map((_, i) => (weights ? Math.max(0, weights[i] ?? 0) : 1));
+  const total = shares.reduce((sum, share) => sum + share, 0);
+  if (total <= 0) return variants[0];
+
+  let point = (fnv1a(`${key}:${visitorId}`) / 0x100000000) * total;
+  for (let i = 0; i < variants.length; i++) {
+    point -= shares[i];
+    if (point < 0) return variants[i];
+  }
+  return variants[variants.length - 1];
+}
+
+/** Variants forced by `entro_variant` query parameters, by experiment key */
+export function parseVariantOverrides(searchParams: URLSearchParams): Record<string, string> {
+  const overrides: Record<string, string> = {};
+  for (const value of searchParams.getAll(VARIANT_PARAM)) {
+    const separator = value.indexOf(':');
+    if (separator > 0) overrides[value.slice(0, separator)] = value.slice(separator + 1);
+  }
+  return overrides;
+}
+
+/** Variants by experiment key from the experiment cookie value */
+export function parseExperimentCookie(value: string | undefined): Record<string, string> {
+  if (!value) return {};
+  return Object.fromEntries(new URLSearchParams(value));
+}
+
+export function serializeExperimentCookie(assignments: Record<string, string>): string {
+  return new URLSearchParams(assignments).toString();
+}
@@ -0,0 +1,70 @@
+import { routeToRegex } from './routes';
+import type { EventData, GoalCondition, GoalDefinition } from './types';
+
+const OPERATORS = new Set(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'exists']);
+const TRIGGERS = ['url', 'click', 'submit', 'event'] as const;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isCondition(value: unknown): value is GoalCondition {
+  if (!isRecord(value) || typeof value.property !== 'string') return false;
+  if (value.operator !== undefined && !OPERATORS.has(value.operator as string)) return false;
+  return value.value === undefined || ['string', 'number', 'boolean'].includes(typeof value.value);
+}
+
+function isGoal(value: unknown): value is GoalDefinition {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id) return false;
+  if (!TRIGGERS.some(trigger => typeof value[trigger] === 'string')) return false;
+  if (value.value !== undefined && typeof value.value !== 'number') return false;
+  if (value.once !== undefined && value.once !== 'session' && value.once !== 'pageview') {
+    return false;
+  }
+  return (
+    value.where === undefined || (Array.isArray(value.where) && value.where.every(isCondition))
+  );
+}
+
+/**
+ * Goal definitions from parsed JSON, either an array or `{ goals: [...] }`.
+ * Malformed goals and goals without a trigger are dropped.
+ */
+export function parseGoals(json: unknown): GoalDefinition[] {
+  const list = isRecord(json) ? json.goals : json;
+  return Array.isArray(list) ? list.filter(isGoal) : [];
+}
+
+/** Whether a path matches a goal URL pattern, `*` matches any characters */
+export function matchesUrlPattern(pattern: string, pathname: string): boolean {
+  return routeToRegex(pattern).test(pathname);
+}
+
+function matchesCondition(condition: GoalCondition, data: EventData): boolean {
+  const actual = data[condition.property];
+  const expected = condition.value;
+
+  switch (condition.operator ?? 'eq') {
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'neq':
+      return actual !== expected;
+    case 'gt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual > expected;
+    case 'gte':
+      return typeof actual === 'number' && typeof expected === 'number' && actual >= expected;
+    case 'lt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual < expected;
+    case 'lte':
+      return typeof actual === 'number' && typeof expected === 'number' && actual <= expected;
+    case 'contains':
+      return typeof actual === 'string' && actual.includes(String(expected));
+    default:
+      return actual === expected;
+  }
+}
+
+/** Whether event data meets every condition of a goal */
+export function matchesConditions(conditions: GoalCondition[] | undefined, data: EventData = {}) {
+  return (conditions ?? []).every(condition => matchesCondition(condition, data));
+}
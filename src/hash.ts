@@ -0,0 +1,12 @@
+/**
+ * 32-bit FNV-1a hash of a string. Fast and synchronous, for bucketing and
+ * integrity checks only, never for secrets.
+ */
+export function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
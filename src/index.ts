@@ -2,10 +2,15 @@
 
 // Re-export Phase 2 types from client
 export type {
+  EventTrackerReturn,
   FormEventData,
   FormEventType,
   NavigationType,
+  TypedEntrolytics,
+  UseEventTrackerOptions,
+  UseExperimentOptions,
   UseFormTrackingOptions,
+  UseScrollDepthOptions,
   UseWebVitalsOptions,
   WebVitalData,
   WebVitalMetric,
@@ -13,35 +18,79 @@ export type {
 } from './client';
 export {
   Analytics,
+  createEntrolytics,
   EntrolyticsContext,
+  EntrolyticsErrorBoundary,
+  EntrolyticsPagesProvider,
   EntrolyticsProvider,
+  Experiment,
   OutboundLink,
+  reportWebVitals,
   Script,
   TrackEvent,
   useEntrolytics,
   useEventTracker,
+  useExperiment,
   useFormTracking,
   usePageView,
+  useScrollDepth,
   // Phase 2
   useWebVitals,
+  Variant,
 } from './client';
 
+export { validateEvent } from './schema';
+
 // Re-export Analytics props type
 export type { AnalyticsProps } from './client/components/Analytics';
 // Type exports
 export type {
   BeforeSendCallback,
+  ConsentCategory,
+  ConsentState,
+  ConsentStatus,
+  DefaultEventMap,
+  Destination,
+  DestinationMethods,
+  EngagementConfig,
   EnhancedIdentityData,
   EntrolyticsConfig,
   EntrolyticsContextValue,
+  EntrolyticsErrorBoundaryProps,
+  EntrolyticsPlugin,
+  ErrorTrackingConfig,
+  EventArgs,
   EventData,
+  EventDataSchema,
+  EventMap,
+  EventName,
   EventPayload,
+  EventSchema,
+  ExperimentConfig,
+  ExperimentProps,
+  FrustrationConfig,
+  GoalCondition,
+  GoalDefinition,
   IdentifyPayload,
   OutboundLinkProps,
+  OutboxConfig,
   PayloadType,
+  PluginApi,
+  PluginMethod,
+  PluginPayload,
+  PropertySpec,
+  PropertyType,
   ProxyConfig,
+  RateLimitConfig,
+  RedactConfig,
+  RedactDetector,
+  RedactRule,
+  SamplingConfig,
+  ScrollDepthConfig,
+  StorageMode,
   TrackEventProps,
   TrackedProperties,
   TrackOptions,
   UsePageViewOptions,
+  VariantProps,
 } from './types';
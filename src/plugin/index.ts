@@ -1,4 +1,6 @@
 import type { NextConfig } from 'next';
+import { detectDeployment } from '../server/deployment';
+import { collectRoutes } from './routes';
 
 interface EntrolyticsPluginConfig {
   /** Your Entrolytics website ID (required) */
@@ -20,13 +22,19 @@ interface EntrolyticsPluginConfig {
   };
   /** Enable debug mode */
   debug?: boolean;
+  /**
+   * Read the route templates of the `app` and `pages` directories at build time so page
+   * views carry a `route` such as `/blog/[slug]` (default: true)
+   */
+  routeManifest?: boolean;
 }
 
 /**
  * Next.js config plugin for Entrolytics.
  *
  * This plugin:
- * - Sets up environment variables for the tracker
+ * - Sets up environment variables for the tracker, including the detected deployment ID
+ * - Collects the route templates of the app so page views can be grouped by route
  * - Configures rewrites for proxy mode
  * - Adds CSP headers if needed
  *
@@ -49,9 +57,15 @@ interface EntrolyticsPluginConfig {
  * ```
  */
 export function withEntrolytics(pluginConfig: EntrolyticsPluginConfig) {
-  const { websiteId, apiKey, host, proxy, debug } = pluginConfig;
+  const { websiteId, apiKey, host, proxy, debug, routeManifest = true } = pluginConfig;
 
   return (nextConfig: NextConfig = {}): NextConfig => {
+    // Tags client errors with the deployment they came from
+    const deployment = detectDeployment();
+    const deploymentId = deployment.deployId ?? deployment.gitSha;
+
+    const routes = routeManifest ? collectRoutes(process.cwd(), nextConfig.basePath) : [];
+
     // Merge environment variables
     const env = {
       ...nextConfig.env,
@@ -59,6 +73,8 @@ export function withEntrolytics(pluginConfig: EntrolyticsPluginConfig) {
       ...(apiKey && { NEXT_PUBLIC_ENTROLYTICS_API_KEY: apiKey }),
       ...(host && { NEXT_PUBLIC_ENTROLYTICS_HOST: host }),
       ...(debug && { NEXT_PUBLIC_ENTROLYTICS_DEBUG: 'true' }),
+      ...(deploymentId && { NEXT_PUBLIC_ENTROLYTICS_DEPLOYMENT_ID: deploymentId }),
+      ...(routes.length > 0 && { NEXT_PUBLIC_ENTROLYTICS_ROUTES: JSON.stringify(routes) }),
     };
 
     // Setup rewrites for proxy mode
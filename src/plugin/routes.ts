@@ -0,0 +1,58 @@
+import { existsSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+
+const PAGE_EXTENSIONS = /\.(jsx?|tsx?|mdx?)$/;
+const PAGES_SPECIAL_FILES = new Set(['_app', '_document', '_error', '404', '500']);
+
+// Route groups and parallel route slots do not add a URL segment
+function isHiddenSegment(name: string): boolean {
+  return (name.startsWith('(') && name.endsWith(')')) || name.startsWith('@');
+}
+
+function collectAppRoutes(dir: string, prefix: string, routes: Set<string>): void {
+  const entries = readdirSync(dir, { withFileTypes: true });
+
+  if (entries.some(entry => entry.isFile() && /^page\.(jsx?|tsx?|mdx?)$/.test(entry.name))) {
+    routes.add(prefix || '/');
+  }
+
+  for (const entry of entries) {
+    // Intercepting routes reuse another route's URL and private folders are not routable
+    if (!entry.isDirectory() || entry.name.startsWith('(.')) continue;
+    if (entry.name.startsWith('_') || entry.name === 'node_modules') continue;
+    const segment = isHiddenSegment(entry.name) ? '' : `/${entry.name}`;
+    collectAppRoutes(join(dir, entry.name), prefix + segment, routes);
+  }
+}
+
+function collectPagesRoutes(dir: string, prefix: string, routes: Set<string>): void {
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      if (!prefix && entry.name === 'api') continue;
+      collectPagesRoutes(join(dir, entry.name), `${prefix}/${entry.name}`, routes);
+      continue;
+    }
+    if (!entry.isFile() || !PAGE_EXTENSIONS.test(entry.name)) continue;
+
+    const name = entry.name.replace(PAGE_EXTENSIONS, '');
+    if (!prefix && PAGES_SPECIAL_FILES.has(name)) continue;
+    routes.add(name === 'index' ? prefix || '/' : `${prefix}/${name}`);
+  }
+}
+
+/**
+ * Collect the route templates of the `app` and `pages` directories, such as
+ * `/blog/[slug]`, with `basePath` prepended.
+ */
+export function collectRoutes(rootDir: string, basePath: string = ''): string[] {
+  const routes = new Set<string>();
+
+  for (const base of ['', 'src']) {
+    const appDir = join(rootDir, base, 'app');
+    const pagesDir = join(rootDir, base, 'pages');
+    if (existsSync(appDir)) collectAppRoutes(appDir, '', routes);
+    if (existsSync(pagesDir)) collectPagesRoutes(pagesDir, '', routes);
+  }
+
+  return [...routes].map(route => (basePath && route === '/' ? basePath : basePath + route));
+}
@@ -0,0 +1,175 @@
+import type { RedactConfig, RedactDetector, RedactRule } from './types';
+
+export const DEFAULT_REDACT_PLACEHOLDER = '[redacted]';
+
+export const DEFAULT_DENY_PARAMS = [
+  'access_token',
+  'api_key',
+  'apikey',
+  'auth',
+  'code',
+  'email',
+  'id_token',
+  'key',
+  'password',
+  'pwd',
+  'refresh_token',
+  'secret',
+  'session',
+  'sessionid',
+  'sig',
+  'signature',
+  'token',
+];
+
+const ALL_DETECTORS: RedactDetector[] = ['jwt', 'creditCard', 'email', 'phone'];
+
+const DETECTOR_PATTERNS: Record<RedactDetector, RegExp> = {
+  jwt: /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g,
+  creditCard: /\b(?:\d[ -]?){12,18}\d\b/g,
+  email: /[\w.%+-]+@[a-z\d.-]+\.[a-z]{2,}/gi,
+  // A country code, parentheses or separators are required so bare IDs such as
+  // `/orders/1234567890` are not mistaken for phone numbers
+  phone:
+    /(?<!\w)(?:\+\d{1,3}[\s.-]?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}|\(\d{3}\)\s?\d{3}[\s.-]?\d{4}|\d{3}[\s.-]\d{3}[\s.-]\d{4})(?!\w)/g,
+};
+
+export interface Redactor {
+  /** Redact query parameters, path segments and fragments of a URL */
+  url: (value: string) => string;
+  /** Redact detected personal data inside free text */
+  text: (value: string) => string;
+  /** Recursively redact string values of event data, treating absolute URLs as URLs */
+  data: <T>(value: T) => T;
+}
+
+// Rejects digit runs that merely look like card numbers, such as order IDs
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+}
+
+function toReplacer(rule: RedactRule, placeholder: string): (value: string) => string {
+  if (typeof rule === 'function') return rule;
+
+  const flags = rule.pattern.flags.includes('g') ? rule.pattern.flags : `${rule.pattern.flags}g`;
+  const pattern = new RegExp(rule.pattern.source, flags);
+  const replacement = rule.replacement ?? placeholder;
+  return value => value.replace(pattern, replacement);
+}
+
+/**
+ * Creates a redactor from the `redact` option shared by the provider and the server
+ * helpers. Returns undefined when redaction is disabled.
+ *
+ * @example
+ * ```ts
+ * const redactor = createRedactor({ denyParams: ['reset'], detectors: ['email'] });
+ * redactor?.url('https://example.com/reset?reset=abc&ref=jane@example.com');
+ * // 'https://example.com/reset?reset=[redacted]&ref=[redacted]'
+ * ```
+ */
+export function createRedactor(config: RedactConfig | boolean | undefined): Redactor | undefined {
+  if (!config) return undefined;
+
+  const {
+    denyParams = DEFAULT_DENY_PARAMS,
+    allowParams,
+    detectors = ALL_DETECTORS,
+    rules = [],
+    placeholder = DEFAULT_REDACT_PLACEHOLDER,
+  } = config === true ? {} : config;
+
+  const deny = new Set(denyParams.map(param => param.toLowerCase()));
+  const allow = allowParams && new Set(allowParams.map(param => param.toLowerCase()));
+  const encodedPlaceholder = placeholder.replace(/[\s#&=?]/g, encodeURIComponent);
+
+  const replacers = [
+    ...ALL_DETECTORS.filter(detector => detectors.includes(detector)).map(
+      detector => (value: string) =>
+        value.replace(DETECTOR_PATTERNS[detector], match =>
+          detector !== 'creditCard' || passesLuhn(match.replace(/\D/g, '')) ? placeholder : match,
+        ),
+    ),
+    ...rules.map(rule => toReplacer(rule, placeholder)),
+  ];
+
+  const text = (value: string): string =>
+    replacers.reduce((current, replace) => replace(current), value);
+
+  const containsPersonalData = (raw: string): boolean => {
+    const decoded = safeDecode(raw);
+    return text(decoded) !== decoded;
+  };
+
+  const redactParams = (query: string): string =>
+    query
+      .split('&')
+      .map(pair => {
+        const separator = pair.indexOf('=');
+        if (separator === -1) return pair;
+
+        const rawKey = pair.slice(0, separator);
+        const rawValue = pair.slice(separator + 1);
+        const key = safeDecode(rawKey).toLowerCase();
+
+        const redacted =
+          (allow ? !allow.has(key) : deny.has(key)) || containsPersonalData(rawValue);
+        return redacted && rawValue ? `${rawKey}=${encodedPlaceholder}` : pair;
+      })
+      .join('&');
+
+  const url = (value: string): string => {
+    const [, base = '', query, fragment] = /^([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/s.exec(value) ?? [];
+
+    const path = base
+      .split('/')
+      .map(segment => (segment && containsPersonalData(segment) ? encodedPlaceholder : segment))
+      .join('/');
+
+    let result = path;
+    if (query !== undefined) result += `?${redactParams(query)}`;
+    if (fragment !== undefined) {
+      // Fragments such as OAuth implicit grants carry parameters too
+      result += `#${
+        fragment.includes('=')
+          ? redactParams(fragment)
+          : containsPersonalData(fragment)
+            ? encodedPlaceholder
+            : fragment
+      }`;
+    }
+    return result;
+  };
+
+  const data = <T>(value: T): T => {
+    if (typeof value === 'string') {
+      return (/^https?:\/\//i.test(value) ? url(value) : text(value)) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => data(item)) as T;
+    }
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, data(item)])) as T;
+    }
+    return value;
+  };
+
+  return { url, text, data };
+}
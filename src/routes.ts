@@ -0,0 +1,107 @@
+type Segment =
+  | { kind: 'static'; value: string }
+  | { kind: 'dynamic' }
+  | { kind: 'catchAll'; optional: boolean };
+
+interface CompiledRoute {
+  template: string;
+  segments: Segment[];
+}
+
+/** Maps a concrete pathname to its route template */
+export type RouteMatcher = (pathname: string) => string;
+
+const ID_SEGMENT =
+  /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{12,})$/i;
+
+function splitPath(pathname: string): string[] {
+  return pathname.split('/').filter(Boolean);
+}
+
+function parseSegment(segment: string): Segment {
+  if (segment.startsWith('[[...') && segment.endsWith(']]')) {
+    return { kind: 'catchAll', optional: true };
+  }
+  if (segment.startsWith('[...') && segment.endsWith(']')) {
+    return { kind: 'catchAll', optional: false };
+  }
+  if (segment.startsWith('[') && segment.endsWith(']')) return { kind: 'dynamic' };
+  return { kind: 'static', value: segment };
+}
+
+// Static segments beat dynamic ones, which beat catch-alls, as in the Next.js router
+function rank(segment: Segment): number {
+  if (segment.kind === 'static') return 0;
+  if (segment.kind === 'dynamic') return 1;
+  return segment.optional ? 3 : 2;
+}
+
+function compareRoutes(a: CompiledRoute, b: CompiledRoute): number {
+  const length = Math.max(a.segments.length, b.segments.length);
+  for (let i = 0; i < length; i++) {
+    const left = a.segments[i];
+    const right = b.segments[i];
+    if (!left || !right) return left ? 1 : -1;
+    const difference = rank(left) - rank(right);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+function matches(route: CompiledRoute, parts: string[]): boolean {
+  for (let i = 0; i < route.segments.length; i++) {
+    const segment = route.segments[i];
+    if (segment.kind === 'catchAll') return segment.optional || parts.length > i;
+
+    const part = parts[i];
+    if (part === undefined) return false;
+    if (segment.kind === 'static' && safeDecode(part) !== segment.value) return false;
+  }
+  return parts.length === route.segments.length;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/** A regular expression for a path pattern where `*` matches any characters */
+export function routeToRegex(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Replace path segments that look like identifiers, such as numbers, UUIDs and long
+ * hex strings, with `[id]`. Used for paths no route template matches.
+ */
+export function maskIdSegments(pathname: string): string {
+  const masked = splitPath(pathname).map(part => (ID_SEGMENT.test(part) ? '[id]' : part));
+  return `/${masked.join('/')}`;
+}
+
+/**
+ * Build a matcher from route templates such as `/blog/[slug]` or `/docs/[...path]`.
+ * Paths no template matches fall back to `maskIdSegments`.
+ *
+ * @example
+ * ```ts
+ * const toRoute = createRouteMatcher(['/blog/[slug]', '/blog/new', '/docs/[[...path]]']);
+ * toRoute('/blog/hello-world'); // '/blog/[slug]'
+ * toRoute('/blog/new'); // '/blog/new'
+ * toRoute('/orders/1234'); // '/orders/[id]'
+ * ```
+ */
+export function createRouteMatcher(templates: string[]): RouteMatcher {
+  const routes = templates
+    .map(template => ({ template, segments: splitPath(template).map(parseSegment) }))
+    .toSorted(compareRoutes);
+
+  return pathname => {
+    const parts = splitPath(pathname);
+    return routes.find(route => matches(route, parts))?.template ?? maskIdSegments(pathname);
+  };
+}
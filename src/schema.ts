@@ -0,0 +1,64 @@
+import type { EventData, EventSchema } from './types';
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Check an event against a tracking plan, returning a description of every mismatch.
+ * Events missing from the plan, missing required properties, properties of the wrong
+ * type or outside their allowed values and properties the plan does not list are all
+ * reported.
+ *
+ * @example
+ * ```ts
+ * const issues = validateEvent(
+ *   { signup: { plan: 'string', trial: 'boolean?' } },
+ *   'signup',
+ *   { plan: 1 },
+ * );
+ * // ['Event "signup" property "plan" should be string, got number']
+ * ```
+ */
+export function validateEvent(schema: EventSchema, name: string, data?: EventData): string[] {
+  const spec = schema[name];
+  if (!spec) return [`Event "${name}" is not in the tracking plan`];
+
+  const issues: string[] = [];
+  const values: Record<string, unknown> = data ?? {};
+
+  for (const [key, declared] of Object.entries(spec)) {
+    const { expected, optional, allowed } =
+      typeof declared === 'string'
+        ? {
+            expected: declared.replace(/\?$/, ''),
+            optional: declared.endsWith('?'),
+            allowed: undefined,
+          }
+        : { expected: declared.type, optional: declared.optional ?? false, allowed: declared.enum };
+    const value = values[key];
+
+    if (value === undefined || value === null) {
+      if (!optional) issues.push(`Event "${name}" is missing property "${key}"`);
+      continue;
+    }
+
+    const actual = typeOf(value);
+    if (actual !== expected) {
+      issues.push(`Event "${name}" property "${key}" should be ${expected}, got ${actual}`);
+    } else if (allowed && !allowed.includes(value as string | number | boolean)) {
+      issues.push(
+        `Event "${name}" property "${key}" should be one of ${allowed.map(item => JSON.stringify(item)).join(', ')}, got ${JSON.stringify(value)}`,
+      );
+    }
+  }
+
+  for (const key of Object.keys(values)) {
+    if (!(key in spec))
+      issues.push(`Event "${name}" property "${key}" is not in the tracking plan`);
+  }
+
+  return issues;
+}
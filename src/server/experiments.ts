@@ -0,0 +1,36 @@
+import { EXPERIMENT_COOKIE, parseExperimentCookie } from '../experiments';
+import type { CookieReader } from './identity';
+
+/**
+ * The variant `withEntrolyticsExperiments` assigned for this request, for server
+ * components that render the experiment themselves instead of using a rewrite.
+ * Reads the cookies of the current request scope unless `source` is given.
+ *
+ * @example
+ * ```tsx
+ * // app/page.tsx
+ * import { getExperimentVariant } from '@entrolytics/nextjs/server';
+ *
+ * export default async function Home() {
+ *   const variant = await getExperimentVariant('landing-hero');
+ *   return variant === 'video' ? <VideoHero /> : <Hero />;
+ * }
+ * ```
+ */
+export async function getExperimentVariant(
+  key: string,
+  source?: CookieReader,
+): Promise<string | undefined> {
+  let cookies = source;
+  if (!cookies) {
+    try {
+      const headers = await import('next/headers');
+      cookies = await headers.cookies();
+    } catch {
+      // Outside a request scope
+      return undefined;
+    }
+  }
+
+  return parseExperimentCookie(cookies.get(EXPERIMENT_COOKIE)?.value)[key];
+}
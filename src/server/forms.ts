@@ -5,7 +5,9 @@ import type { FormEventType } from '@entrolytics/shared';
  * Track form submissions from Server Actions and API routes
  */
 
-import { resolveSessionVisitorIds } from './identity';
+import { createRedactor, type Redactor } from '../redact';
+import type { RedactConfig } from '../types';
+import { resolveRequestIds } from './identity';
 
 export type { FormEventType };
 
@@ -41,10 +43,22 @@ export interface TrackFormConfig {
   apiKey: string;
   /** Website ID */
   websiteId: string;
-  /** Optional stable session ID */
+  /** Optional stable session ID (defaults to the identity cookie) */
   sessionId?: string;
-  /** Optional stable visitor ID */
+  /** Optional stable visitor ID (defaults to the identity cookie) */
   visitorId?: string;
+  /** Scrub personal data from the page path and error messages (default: false) */
+  redact?: RedactConfig | boolean;
+}
+
+function redactFormEvent(event: FormEventPayload, redactor?: Redactor): FormEventPayload {
+  if (!redactor) return event;
+
+  return {
+    ...event,
+    urlPath: redactor.url(event.urlPath),
+    ...(event.errorMessage && { errorMessage: redactor.text(event.errorMessage) }),
+  };
 }
 
 /**
@@ -83,13 +97,13 @@ export async function trackServerFormEvent(
 ): Promise<{ ok: boolean; error?: string }> {
   const { host, websiteId, apiKey } = config;
   const baseUrl = host.replace(/\/$/, '');
-  const { sessionId, visitorId } = resolveSessionVisitorIds(config);
+  const { sessionId, visitorId } = await resolveRequestIds(config);
 
   const payload = {
     websiteId,
     sessionId,
     visitorId,
-    ...event,
+    ...redactFormEvent(event, createRedactor(config.redact)),
   };
 
   try {
@@ -124,13 +138,14 @@ export async function trackServerFormEventsBatch(
 ): Promise<{ ok: boolean; error?: string }> {
   const { host, websiteId, apiKey } = config;
   const baseUrl = host.replace(/\/$/, '');
-  const { sessionId, visitorId } = resolveSessionVisitorIds(config);
+  const { sessionId, visitorId } = await resolveRequestIds(config);
 
+  const redactor = createRedactor(config.redact);
   const payload = {
     websiteId,
     sessionId,
     visitorId,
-    events,
+    events: events.map(event => redactFormEvent(event, redactor)),
   };
 
   try {
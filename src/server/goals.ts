@@ -0,0 +1,46 @@
+import { parseGoals } from '../goals';
+
+interface GoalsHandlerConfig {
+  /** Browser cache lifetime of the goals in seconds (default: 300) */
+  maxAge?: number;
+}
+
+/**
+ * Creates a route handler serving goal definitions as JSON for the provider's
+ * `goals` option, so conversions can be edited without redeploying components.
+ * The source can return parsed JSON from a file, a CMS or a database; malformed
+ * goals are dropped before they reach the browser.
+ *
+ * @example
+ * ```ts
+ * // app/api/entrolytics/goals/route.ts
+ * import { readFile } from 'node:fs/promises';
+ * import { createGoalsHandler } from '@entrolytics/nextjs/server';
+ *
+ * export const GET = createGoalsHandler(async () =>
+ *   JSON.parse(await readFile('config/goals.json', 'utf8')),
+ * );
+ *
+ * // app/layout.tsx
+ * <EntrolyticsProvider websiteId="..." goals="/api/entrolytics/goals">
+ * ```
+ */
+export function createGoalsHandler(
+  source: unknown | (() => unknown | Promise<unknown>),
+  config: GoalsHandlerConfig = {},
+): () => Promise<Response> {
+  const { maxAge = 300 } = config;
+
+  return async () => {
+    try {
+      const json = typeof source === 'function' ? await source() : source;
+      return Response.json(
+        { goals: parseGoals(json) },
+        { headers: { 'Cache-Control': `public, max-age=${maxAge}` } },
+      );
+    } catch (error) {
+      console.error('[Entrolytics Goals] failed to load goals:', error);
+      return Response.json({ goals: [] }, { status: 500 });
+    }
+  };
+}
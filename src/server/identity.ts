@@ -1,3 +1,23 @@
+import type { NextResponse } from 'next/server';
+
+export const VISITOR_COOKIE = '__entro_vid';
+export const SESSION_COOKIE = '__entro_sid';
+/**
+ * Marks a visitor cookie the middleware created for a request without one, so the
+ * client keeps a visitor ID the browser already had instead of adopting it
+ */
+export const NEW_VISITOR_COOKIE = '__entro_vid_new';
+
+/** Visitor cookie lifetime in seconds (one year) */
+export const VISITOR_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+/** Session cookie lifetime in seconds, refreshed on every request (30 minutes) */
+export const SESSION_COOKIE_MAX_AGE = 30 * 60;
+
+/** Anything with a Next.js style cookie getter, e.g. `await cookies()` or `request.cookies` */
+export interface CookieReader {
+  get: (name: string) => { value: string } | undefined;
+}
+
 export interface SessionVisitorInput {
   sessionId?: string;
   visitorId?: string;
@@ -29,3 +49,166 @@ export function resolveSessionVisitorIds(input: SessionVisitorInput = {}): Sessi
     visitorId: input.visitorId || generateUuid(),
   };
 }
+
+function parseCookieHeader(header: string | null, name: string): string | undefined {
+  if (!header) return undefined;
+
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(rest.join('='));
+  }
+  return undefined;
+}
+
+function isCookieReader(source: unknown): source is CookieReader {
+  return typeof (source as CookieReader).get === 'function';
+}
+
+/**
+ * Read the Entrolytics session and visitor IDs from the first-party cookies.
+ *
+ * @example
+ * ```ts
+ * import { cookies } from 'next/headers';
+ * import { getEntrolyticsIds } from '@entrolytics/nextjs/server';
+ *
+ * const { sessionId, visitorId } = getEntrolyticsIds(await cookies());
+ * ```
+ */
+export function getEntrolyticsIds(
+  source: Request | { cookies: CookieReader } | CookieReader,
+): SessionVisitorInput {
+  if (isCookieReader(source)) {
+    return {
+      sessionId: source.get(SESSION_COOKIE)?.value || undefined,
+      visitorId: source.get(VISITOR_COOKIE)?.value || undefined,
+    };
+  }
+
+  const { cookies } = source as { cookies?: CookieReader };
+  if (cookies && typeof cookies.get === 'function') {
+    return getEntrolyticsIds(cookies);
+  }
+
+  const header = (source as Request).headers.get('cookie');
+  return {
+    sessionId: parseCookieHeader(header, SESSION_COOKIE),
+    visitorId: parseCookieHeader(header, VISITOR_COOKIE),
+  };
+}
+
+async function readRequestScopeIds(): Promise<SessionVisitorInput> {
+  // createWebVitalsReporter also runs in the browser, where there is no request scope
+  if (typeof window !== 'undefined') return {};
+
+  try {
+    const { cookies } = await import('next/headers');
+    return getEntrolyticsIds(await cookies());
+  } catch {
+    // Outside a request scope (scripts, tests, some edge contexts)
+    return {};
+  }
+}
+
+/**
+ * Resolve IDs for a server-side event so it joins the browser's visitor journey.
+ *
+ * Explicit IDs win, then the identity cookies of `request`, then the cookies of the
+ * current request scope via `next/headers`, and finally freshly generated IDs.
+ */
+export async function resolveRequestIds(
+  input: SessionVisitorInput = {},
+  request?: Request,
+): Promise<SessionVisitorIds> {
+  if (input.sessionId && input.visitorId) {
+    return resolveSessionVisitorIds(input);
+  }
+
+  const fromCookies = request ? getEntrolyticsIds(request) : await readRequestScopeIds();
+
+  return resolveSessionVisitorIds({
+    sessionId: input.sessionId || fromCookies.sessionId,
+    visitorId: input.visitorId || fromCookies.visitorId,
+  });
+}
+
+export interface VisitorHashInput {
+  /** Client IP address */
+  ip: string;
+  /** Client user agent */
+  userAgent: string;
+  /** Hostname of the tracked site */
+  hostname: string;
+  /** Optional secret mixed into the daily salt */
+  secret?: string;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Derive a privacy-friendly visitor ID for storage-free tracking.
+ *
+ * The ID is a SHA-256 hash of IP, user agent and hostname salted with the current
+ * UTC date, so it is stable for one day and cannot be linked across days.
+ */
+export async function deriveVisitorId(input: VisitorHashInput, now = new Date()): Promise<string> {
+  const salt = `${input.secret ?? ''}:${now.toISOString().slice(0, 10)}`;
+  const source = [salt, input.hostname, input.ip, input.userAgent].join('|');
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(source));
+  const hex = toHex(digest);
+
+  // Format as a UUID so the collector accepts it like any other visitor ID
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
+
+export interface IdentityCookieOptions {
+  /** Session cookie lifetime in seconds (default: 30 minutes) */
+  sessionMaxAge?: number;
+  /** Only send cookies over HTTPS */
+  secure?: boolean;
+  /** Parent domain for the visitor cookie, e.g. `.example.com` */
+  cookieDomain?: string;
+  /** Also set the session cookie on `cookieDomain` (default: false) */
+  shareSession?: boolean;
+  /** The visitor ID was just created for a request without one (default: false) */
+  newVisitor?: boolean;
+}
+
+/**
+ * Set or refresh the identity cookies on a response. The cookies are readable by the
+ * client provider so browser and server events share one visitor journey.
+ */
+export function setIdentityCookies(
+  response: NextResponse,
+  ids: SessionVisitorIds,
+  options: IdentityCookieOptions = {},
+): void {
+  const {
+    sessionMaxAge = SESSION_COOKIE_MAX_AGE,
+    secure = true,
+    cookieDomain,
+    shareSession = false,
+    newVisitor = false,
+  } = options;
+  const attributes = { path: '/', sameSite: 'lax' as const, secure, httpOnly: false };
+
+  response.cookies.set(VISITOR_COOKIE, ids.visitorId, {
+    ...attributes,
+    maxAge: VISITOR_COOKIE_MAX_AGE,
+    ...(cookieDomain && { domain: cookieDomain }),
+  });
+  if (newVisitor) {
+    response.cookies.set(NEW_VISITOR_COOKIE, ids.visitorId, {
+      ...attributes,
+      maxAge: VISITOR_COOKIE_MAX_AGE,
+      ...(cookieDomain && { domain: cookieDomain }),
+    });
+  }
+  response.cookies.set(SESSION_COOKIE, ids.sessionId, {
+    ...attributes,
+    maxAge: sessionMaxAge,
+    ...(cookieDomain && shareSession && { domain: cookieDomain }),
+  });
+}
@@ -6,8 +6,42 @@ export { detectDeployment, getDeploymentLabel } from './deployment';
 // Phase 2: Form tracking
 export type { FormEventPayload, FormEventType, TrackFormConfig } from './forms';
 export { trackServerFormEvent, trackServerFormEventsBatch, withFormTracking } from './forms';
-export { composeMiddleware, withEntrolyticsMiddleware } from './middleware';
+export type {
+  CookieReader,
+  IdentityCookieOptions,
+  SessionVisitorIds,
+  SessionVisitorInput,
+  VisitorHashInput,
+} from './identity';
+export {
+  deriveVisitorId,
+  getEntrolyticsIds,
+  resolveRequestIds,
+  SESSION_COOKIE,
+  setIdentityCookies,
+  VISITOR_COOKIE,
+} from './identity';
+export { getExperimentVariant } from './experiments';
+export { createGoalsHandler } from './goals';
+export {
+  composeMiddleware,
+  withEntrolyticsExperiments,
+  withEntrolyticsMiddleware,
+} from './middleware';
 export { createProxyHandler, createScriptProxy } from './proxy';
+export type {
+  EventDataSchema,
+  EventSchema,
+  ExperimentConfig,
+  GoalCondition,
+  GoalDefinition,
+  PropertySpec,
+  PropertyType,
+  RedactConfig,
+  RedactDetector,
+  RedactRule,
+} from '../types';
+export { validateEvent } from '../schema';
 export { identifyServerSession, trackServerEvent } from './track';
 // Phase 2: Web Vitals
 export type {
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { signLinkerToken, verifyLinkerToken } from './linker';
+
+const ids = { visitorId: 'visitor-1', sessionId: 'session-1' };
+const userAgent = 'Mozilla/5.0 Test';
+
+describe('verifyLinkerToken', () => {
+  it('returns the IDs of a token signed with the same secret', async () => {
+    const token = await signLinkerToken(ids, 'secret', userAgent);
+
+    await expect(verifyLinkerToken(token, 'secret', userAgent)).resolves.toEqual(ids);
+  });
+
+  it('rejects a token signed with another secret', async () => {
+    const token = await signLinkerToken(ids, 'other-secret', userAgent);
+
+    await expect(verifyLinkerToken(token, 'secret', userAgent)).resolves.toBeUndefined();
+  });
+
+  it('rejects a token whose IDs were changed', async () => {
+    const token = await signLinkerToken(ids, 'secret', userAgent);
+    const forged = token.replace('visitor-1', 'visitor-2');
+
+    await expect(verifyLinkerToken(forged, 'secret', userAgent)).resolves.toBeUndefined();
+  });
+
+  it('rejects a token presented by another user agent', async () => {
+    const token = await signLinkerToken(ids, 'secret', userAgent);
+
+    await expect(verifyLinkerToken(token, 'secret', 'curl/8.0')).resolves.toBeUndefined();
+  });
+
+  it('rejects an expired token', async () => {
+    const now = Date.now();
+    const token = await signLinkerToken(ids, 'secret', userAgent, now);
+
+    await expect(
+      verifyLinkerToken(token, 'secret', userAgent, now + 3 * 60 * 1000),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,92 @@
+const SIGNED_LINKER_VERSION = '2';
+// Matches the lifetime of unsigned tokens
+const SIGNED_LINKER_TTL = 2 * 60 * 1000;
+
+export interface SignedLinkerIds {
+  visitorId: string;
+  sessionId?: string;
+}
+
+function toBase64Url(buffer: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(buffer)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> | undefined {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+  } catch {
+    return undefined;
+  }
+}
+
+function importKey(secret: string): Promise<CryptoKey> {
+  return globalThis.crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify'],
+  );
+}
+
+// The user agent is signed too, so a copied or shared link does not hand the
+// original visitor's identity to another browser
+function signedMessage(parts: string[], userAgent: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode([...parts, userAgent].join('|'));
+}
+
+/**
+ * Mint a linker token carrying the visitor and session IDs, signed with an
+ * HMAC-SHA256 of `secret` and bound to the requesting browser's user agent.
+ */
+export async function signLinkerToken(
+  ids: SignedLinkerIds,
+  secret: string,
+  userAgent: string,
+  now: number = Date.now(),
+): Promise<string> {
+  const parts = [SIGNED_LINKER_VERSION, ids.visitorId, ids.sessionId ?? '', now.toString(36)];
+  const signature = await globalThis.crypto.subtle.sign(
+    'HMAC',
+    await importKey(secret),
+    signedMessage(parts, userAgent),
+  );
+  return [...parts, toBase64Url(signature)].join('.');
+}
+
+/**
+ * Verify a signed linker token. Expired, malformed or forged tokens, and tokens
+ * minted for a different user agent, return `undefined`.
+ */
+export async function verifyLinkerToken(
+  token: string,
+  secret: string,
+  userAgent: string,
+  now: number = Date.now(),
+): Promise<SignedLinkerIds | undefined> {
+  const parts = token.split('.');
+  if (parts.length !== 5) return undefined;
+
+  const [version, visitorId, sessionId, issuedAt, signature] = parts;
+  if (version !== SIGNED_LINKER_VERSION || !visitorId) return undefined;
+
+  const age = now - Number.parseInt(issuedAt, 36);
+  if (!(age >= 0 && age <= SIGNED_LINKER_TTL)) return undefined;
+
+  const bytes = fromBase64Url(signature);
+  if (!bytes) return undefined;
+
+  const valid = await globalThis.crypto.subtle.verify(
+    'HMAC',
+    await importKey(secret),
+    bytes,
+    signedMessage(parts.slice(0, 4), userAgent),
+  );
+  if (!valid) return undefined;
+
+  return { visitorId, ...(sessionId && { sessionId }) };
+}
@@ -1,5 +1,22 @@
-import type { NextRequest, NextResponse } from 'next/server';
-import { resolveSessionVisitorIds } from './identity';
+import { type NextRequest, NextResponse } from 'next/server';
+import {
+  assignVariant,
+  EXPERIMENT_COOKIE,
+  parseExperimentCookie,
+  serializeExperimentCookie,
+} from '../experiments';
+import { createRedactor } from '../redact';
+import { routeToRegex } from '../routes';
+import type { ExperimentConfig, RedactConfig } from '../types';
+import {
+  getEntrolyticsIds,
+  resolveSessionVisitorIds,
+  SESSION_COOKIE,
+  setIdentityCookies,
+  VISITOR_COOKIE,
+  VISITOR_COOKIE_MAX_AGE,
+} from './identity';
+import { trackServerEvent } from './track';
 
 interface MiddlewareConfig {
   /** Entrolytics host URL */
@@ -14,6 +31,39 @@ interface MiddlewareConfig {
   excludeRoutes?: string[];
   /** Tag for segmentation */
   tag?: string;
+  /**
+   * Set and refresh the first-party identity cookies shared with the client (default: true).
+   * Turn off for sites using the provider's `storage: 'none'` mode so no cookies are written.
+   */
+  identityCookie?: boolean;
+  /** Session cookie lifetime in seconds, refreshed on every request (default: 1800) */
+  sessionMaxAge?: number;
+  /** Parent domain for the identity cookies, e.g. `.example.com`, shared across subdomains */
+  cookieDomain?: string;
+  /** Also share the session cookie on `cookieDomain` (default: false) */
+  shareSession?: boolean;
+  /** Scrub personal data from tracked URLs and referrers (default: false) */
+  redact?: RedactConfig | boolean;
+}
+
+interface EdgeExperiment extends ExperimentConfig {
+  /** Route patterns the experiment runs on (glob patterns) */
+  paths: string[];
+  /** Route each variant is rewritten to, variants without one keep the requested route */
+  rewrites?: Record<string, string>;
+}
+
+interface ExperimentMiddlewareConfig {
+  /** Entrolytics host URL */
+  host: string;
+  /** Public collection API key */
+  apiKey: string;
+  /** Website ID */
+  websiteId: string;
+  /** Experiments by key */
+  experiments: Record<string, EdgeExperiment>;
+  /** Parent domain for the experiment and identity cookies, e.g. `.example.com` */
+  cookieDomain?: string;
 }
 
 type MiddlewareHandler = (
@@ -21,11 +71,6 @@ type MiddlewareHandler = (
   response?: NextResponse,
 ) => Promise<NextResponse | Response | undefined> | NextResponse | Response | undefined;
 
-function routeToRegex(pattern: string): RegExp {
-  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
-  return new RegExp(`^${escaped}$`);
-}
-
 /**
  * Creates a middleware wrapper that tracks requests to specified routes.
  *
@@ -63,9 +108,15 @@ export function withEntrolyticsMiddleware(config: MiddlewareConfig): MiddlewareH
     trackRoutes = [],
     excludeRoutes = ['/api/collect', '/_next', '/favicon.ico'],
     tag,
+    identityCookie = true,
+    sessionMaxAge,
+    cookieDomain,
+    shareSession,
+    redact,
   } = config;
 
   const baseUrl = host.replace(/\/$/, '');
+  const redactor = createRedactor(redact);
 
   const trackPatterns = trackRoutes.map(routeToRegex);
   const excludePatterns = excludeRoutes.map(routeToRegex);
@@ -86,6 +137,28 @@ export function withEntrolyticsMiddleware(config: MiddlewareConfig): MiddlewareH
 
   return async (request: NextRequest, response?: NextResponse) => {
     const { pathname } = request.nextUrl;
+    const ids = getEntrolyticsIds(request);
+    const { sessionId, visitorId } = resolveSessionVisitorIds(ids);
+    let finalResponse = response;
+
+    if (identityCookie) {
+      // Forward new IDs so server components rendering this request already see them
+      request.cookies.set(VISITOR_COOKIE, visitorId);
+      request.cookies.set(SESSION_COOKIE, sessionId);
+      finalResponse ??= NextResponse.next({ request: { headers: request.headers } });
+
+      setIdentityCookies(
+        finalResponse,
+        { sessionId, visitorId },
+        {
+          sessionMaxAge,
+          secure: request.nextUrl.protocol === 'https:',
+          cookieDomain,
+          shareSession,
+          newVisitor: !ids.visitorId,
+        },
+      );
+    }
 
     if (shouldTrack(pathname)) {
       // Track asynchronously without blocking the response
@@ -94,8 +167,10 @@ export function withEntrolyticsMiddleware(config: MiddlewareConfig): MiddlewareH
       const language = headers.get('accept-language')?.split(',')[0] || 'en';
       const userAgent = headers.get('user-agent') || '';
       const ip = headers.get('x-forwarded-for')?.split(',')[0] || headers.get('x-real-ip') || '';
-      const { sessionId, visitorId } = resolveSessionVisitorIds();
-      const pageUrl = request.nextUrl.toString();
+      const requestUrl = request.nextUrl.toString();
+      const pageUrl = redactor ? redactor.url(requestUrl) : requestUrl;
+      const rawReferrer = headers.get('referer');
+      const referrer = rawReferrer && redactor ? redactor.url(rawReferrer) : rawReferrer;
 
       const properties: Record<string, string> = {
         method: request.method,
@@ -115,7 +190,7 @@ export function withEntrolyticsMiddleware(config: MiddlewareConfig): MiddlewareH
         url: pageUrl,
         eventType: 'custom_event',
         eventName: 'middleware-request',
-        ...(headers.get('referer') && { referrer: headers.get('referer') as string }),
+        ...(referrer && { referrer }),
         properties,
       };
 
@@ -134,7 +209,134 @@ export function withEntrolyticsMiddleware(config: MiddlewareConfig): MiddlewareH
       });
     }
 
-    return response;
+    return finalResponse;
+  };
+}
+
+// Link prefetches run middleware too, but nobody has seen the page yet
+function isPrefetch(request: NextRequest): boolean {
+  return (
+    request.headers.has('next-router-prefetch') || request.headers.get('purpose') === 'prefetch'
+  );
+}
+
+/**
+ * Creates a middleware that assigns experiment variants at the edge, so pages render
+ * the right variant without flicker. Visitors are bucketed like `useExperiment`, the
+ * assignment is kept in a cookie and requests are rewritten to the variant's route.
+ * Each new assignment is sent as an `$experiment_exposure` event, and client events
+ * carry the assigned variants as the `experiments` property.
+ *
+ * @example
+ * ```ts
+ * // middleware.ts
+ * import { withEntrolyticsExperiments } from '@entrolytics/nextjs/server';
+ *
+ * export const middleware = withEntrolyticsExperiments({
+ *   host: process.env.ENTROLYTICS_HOST!,
+ *   apiKey: process.env.ENTROLYTICS_API_KEY!,
+ *   websiteId: process.env.ENTROLYTICS_WEBSITE_ID!,
+ *   experiments: {
+ *     'landing-hero': {
+ *       paths: ['/'],
+ *       variants: ['control', 'video'],
+ *       rewrites: { video: '/variants/landing-video' },
+ *     },
+ *   },
+ * });
+ * ```
+ */
+export function withEntrolyticsExperiments(config: ExperimentMiddlewareConfig): MiddlewareHandler {
+  const { host, apiKey, websiteId, experiments, cookieDomain } = config;
+
+  const entries = Object.entries(experiments).map(([key, experiment]) => ({
+    key,
+    experiment,
+    patterns: experiment.paths.map(routeToRegex),
+  }));
+
+  return async (request: NextRequest, response?: NextResponse) => {
+    const { pathname } = request.nextUrl;
+    const active = entries.filter(({ patterns }) =>
+      patterns.some(pattern => pattern.test(pathname)),
+    );
+    if (active.length === 0) return response;
+
+    const ids = getEntrolyticsIds(request);
+    const { sessionId, visitorId } = resolveSessionVisitorIds(ids);
+    const prefetch = isPrefetch(request);
+
+    // Experiments removed from the config are dropped from the cookie
+    const assignments = Object.fromEntries(
+      Object.entries(parseExperimentCookie(request.cookies.get(EXPERIMENT_COOKIE)?.value)).filter(
+        ([key]) => key in experiments,
+      ),
+    );
+    const assigned: [string, string][] = [];
+    let rewrite: string | undefined;
+
+    for (const { key, experiment } of active) {
+      let variant: string | undefined = assignments[key];
+      if (!variant || !experiment.variants.includes(variant)) {
+        variant = assignVariant(visitorId, key, experiment);
+        if (!variant) continue;
+        assignments[key] = variant;
+        assigned.push([key, variant]);
+      }
+      rewrite ??= experiment.rewrites?.[variant];
+    }
+
+    // Forward the cookies so server components rendering this request already see them
+    const cookieValue = serializeExperimentCookie(assignments);
+    request.cookies.set(EXPERIMENT_COOKIE, cookieValue);
+    if (!ids.visitorId) {
+      request.cookies.set(VISITOR_COOKIE, visitorId);
+      request.cookies.set(SESSION_COOKIE, sessionId);
+    }
+
+    let finalResponse: NextResponse;
+    if (rewrite) {
+      const url = request.nextUrl.clone();
+      url.pathname = rewrite;
+      finalResponse = NextResponse.rewrite(url, { request: { headers: request.headers } });
+      // Keep cookies set by earlier middleware
+      for (const cookie of response?.cookies.getAll() ?? []) finalResponse.cookies.set(cookie);
+    } else {
+      finalResponse = response ?? NextResponse.next({ request: { headers: request.headers } });
+    }
+
+    // Prefetches get the same deterministic variant but leave recording it to the visit
+    if (prefetch) return finalResponse;
+
+    const secure = request.nextUrl.protocol === 'https:';
+    finalResponse.cookies.set(EXPERIMENT_COOKIE, cookieValue, {
+      path: '/',
+      sameSite: 'lax',
+      secure,
+      httpOnly: false,
+      maxAge: VISITOR_COOKIE_MAX_AGE,
+      ...(cookieDomain && { domain: cookieDomain }),
+    });
+    // Assignments follow the visitor, so a first visit needs its visitor cookie now
+    if (!ids.visitorId) {
+      setIdentityCookies(
+        finalResponse,
+        { sessionId, visitorId },
+        { secure, cookieDomain, newVisitor: true },
+      );
+    }
+
+    for (const [key, variant] of assigned) {
+      // Fire and forget - don't await
+      void trackServerEvent(
+        { host, apiKey, websiteId, sessionId, visitorId },
+        { event: '$experiment_exposure', data: { experiment: key, variant }, request },
+      ).then(result => {
+        if (!result.ok) console.error('[Entrolytics Middleware] exposure error:', result.error);
+      });
+    }
+
+    return finalResponse;
   };
 }
 
@@ -1,5 +1,9 @@
+import { API_ROUTES } from '@entrolytics/shared';
 import type { NextRequest } from 'next/server';
-import { resolveSessionVisitorIds } from './identity';
+import { createRedactor, type Redactor } from '../redact';
+import type { RedactConfig } from '../types';
+import { deriveVisitorId, getEntrolyticsIds, resolveSessionVisitorIds } from './identity';
+import { signLinkerToken, verifyLinkerToken } from './linker';
 
 interface ProxyHandlerConfig {
   /** Entrolytics host URL */
@@ -10,6 +14,15 @@ interface ProxyHandlerConfig {
   websiteId?: string;
   /** Proxy mode: 'direct' passes through, 'cloak' hides websiteId server-side */
   mode?: 'direct' | 'cloak';
+  /** Secret mixed into the daily salt of visitor hashes for storage-free clients */
+  visitorHashSecret?: string;
+  /** Scrub personal data from forwarded URLs, referrers and event data (default: false) */
+  redact?: RedactConfig | boolean;
+  /**
+   * Secret for signing cross-domain linker tokens at `/linker`, used by clients with
+   * `proxy.signLinks`. Every linked domain needs the same secret
+   */
+  linkerSecret?: string;
 }
 
 interface ProxyHandlers {
@@ -17,6 +30,62 @@ interface ProxyHandlers {
   POST: (request: NextRequest) => Promise<Response>;
 }
 
+function normalizeCollectPayload(
+  payload: Record<string, unknown>,
+  mode: ProxyHandlerConfig['mode'],
+  websiteId?: string,
+  fallbackIds: { sessionId?: string; visitorId?: string } = {},
+  redactor?: Redactor,
+): Record<string, unknown> | null {
+  const normalizedPayload: Record<string, unknown> = { ...payload };
+
+  // In cloak mode, inject websiteId into the payload
+  if (mode === 'cloak' && websiteId) {
+    normalizedPayload.websiteId = websiteId;
+  }
+
+  if (!normalizedPayload.websiteId || typeof normalizedPayload.websiteId !== 'string') {
+    return null;
+  }
+
+  if (!normalizedPayload.sessionId || !normalizedPayload.visitorId) {
+    const { sessionId, visitorId } = resolveSessionVisitorIds({
+      sessionId:
+        typeof normalizedPayload.sessionId === 'string' && normalizedPayload.sessionId
+          ? normalizedPayload.sessionId
+          : fallbackIds.sessionId,
+      visitorId:
+        typeof normalizedPayload.visitorId === 'string' && normalizedPayload.visitorId
+          ? normalizedPayload.visitorId
+          : fallbackIds.visitorId,
+    });
+    normalizedPayload.sessionId = sessionId;
+    normalizedPayload.visitorId = visitorId;
+  }
+
+  if (redactor) {
+    for (const field of ['url', 'referrer'] as const) {
+      const value = normalizedPayload[field];
+      if (typeof value === 'string') normalizedPayload[field] = redactor.url(value);
+    }
+    for (const field of [
+      'utmSource',
+      'utmMedium',
+      'utmCampaign',
+      'utmTerm',
+      'utmContent',
+    ] as const) {
+      const value = normalizedPayload[field];
+      if (typeof value === 'string') normalizedPayload[field] = redactor.text(value);
+    }
+    if (normalizedPayload.properties) {
+      normalizedPayload.properties = redactor.data(normalizedPayload.properties);
+    }
+  }
+
+  return normalizedPayload;
+}
+
 /**
  * Creates proxy route handlers for ad-blocker bypass.
  *
@@ -33,13 +102,40 @@ interface ProxyHandlers {
  * ```
  */
 export function createProxyHandler(config: ProxyHandlerConfig): ProxyHandlers {
-  const { host, apiKey, websiteId, mode = 'direct' } = config;
+  const {
+    host,
+    apiKey,
+    websiteId,
+    mode = 'direct',
+    visitorHashSecret,
+    redact,
+    linkerSecret,
+  } = config;
   const baseUrl = host.replace(/\/$/, '');
+  const redactor = createRedactor(redact);
 
   const GET = async (request: NextRequest): Promise<Response> => {
     const url = new URL(request.url);
     const path = url.pathname.replace(/^\/api\/collect/, '');
 
+    // Mint a signed linker token for the visitor in the identity cookies, never for
+    // IDs the caller picks
+    if (path.endsWith('/linker')) {
+      if (!linkerSecret) {
+        return Response.json({ error: 'Linker signing is not configured' }, { status: 404 });
+      }
+      const { visitorId, sessionId } = getEntrolyticsIds(request);
+      if (!visitorId) {
+        return Response.json({ error: 'visitor cookie is required' }, { status: 400 });
+      }
+      const token = await signLinkerToken(
+        { visitorId, sessionId },
+        linkerSecret,
+        request.headers.get('user-agent') || '',
+      );
+      return Response.json({ token }, { headers: { 'Cache-Control': 'no-store' } });
+    }
+
     try {
       const response = await fetch(`${baseUrl}${path || '/script.js'}`, {
         headers: {
@@ -73,6 +169,21 @@ export function createProxyHandler(config: ProxyHandlerConfig): ProxyHandlers {
     try {
       const body = (await request.json()) as Record<string, unknown>;
 
+      if (new URL(request.url).pathname.endsWith('/linker')) {
+        const ids =
+          linkerSecret && typeof body.token === 'string'
+            ? await verifyLinkerToken(
+                body.token,
+                linkerSecret,
+                request.headers.get('user-agent') || '',
+              )
+            : undefined;
+        if (!ids) {
+          return Response.json({ error: 'Invalid linker token' }, { status: 400 });
+        }
+        return Response.json(ids, { headers: { 'Cache-Control': 'no-store' } });
+      }
+
       if ('type' in body && 'payload' in body) {
         return Response.json(
           {
@@ -83,47 +194,65 @@ export function createProxyHandler(config: ProxyHandlerConfig): ProxyHandlers {
         );
       }
 
-      const normalizedPayload: Record<string, unknown> = { ...body };
+      const clientIp =
+        request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+        request.headers.get('x-real-ip') ||
+        '';
+      const userAgent = request.headers.get('user-agent') || '';
 
-      // In cloak mode, inject websiteId into the payload
-      if (mode === 'cloak' && websiteId) {
-        normalizedPayload.websiteId = websiteId;
+      const isBatch = new URL(request.url).pathname.endsWith('/batch');
+      if (isBatch && !Array.isArray(body.events)) {
+        return Response.json({ error: 'events array is required' }, { status: 400 });
       }
 
-      if (!normalizedPayload.websiteId || typeof normalizedPayload.websiteId !== 'string') {
-        return Response.json({ error: 'websiteId is required' }, { status: 400 });
-      }
+      const incoming = isBatch ? (body.events as Record<string, unknown>[]) : [body];
 
-      if (!normalizedPayload.sessionId || !normalizedPayload.visitorId) {
-        const { sessionId, visitorId } = resolveSessionVisitorIds({
-          sessionId:
-            typeof normalizedPayload.sessionId === 'string'
-              ? normalizedPayload.sessionId
-              : undefined,
-          visitorId:
-            typeof normalizedPayload.visitorId === 'string'
-              ? normalizedPayload.visitorId
-              : undefined,
-        });
-        normalizedPayload.sessionId = sessionId;
-        normalizedPayload.visitorId = visitorId;
-      }
+      // Browser clients only omit the visitor ID in storage-free mode. Those get a daily
+      // rotating hash, never the identity cookies, so the visitor stays unlinked
+      const needsVisitorHash = incoming.some(event => !event.visitorId);
+      const fallbackIds = {
+        visitorId: needsVisitorHash
+          ? await deriveVisitorId({
+              ip: clientIp,
+              userAgent,
+              hostname: request.headers.get('host') || new URL(request.url).hostname,
+              secret: visitorHashSecret,
+            })
+          : undefined,
+      };
 
-      const clientIp =
-        request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
-        request.headers.get('x-real-ip') ||
-        '';
+      let upstreamBody: Record<string, unknown>;
+
+      if (isBatch) {
+        const events: Record<string, unknown>[] = [];
+        for (const event of incoming) {
+          const normalized = normalizeCollectPayload(event, mode, websiteId, fallbackIds, redactor);
+          if (!normalized) {
+            return Response.json({ error: 'websiteId is required' }, { status: 400 });
+          }
+          events.push(normalized);
+        }
 
-      const response = await fetch(`${baseUrl}/collect`, {
+        // The client API key in beacon envelopes is replaced by the server-side key
+        upstreamBody = { events };
+      } else {
+        const normalized = normalizeCollectPayload(body, mode, websiteId, fallbackIds, redactor);
+        if (!normalized) {
+          return Response.json({ error: 'websiteId is required' }, { status: 400 });
+        }
+        upstreamBody = normalized;
+      }
+
+      const response = await fetch(`${baseUrl}${isBatch ? API_ROUTES.collectBatch : '/collect'}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'x-api-key': apiKey,
-          'User-Agent': request.headers.get('user-agent') || '',
+          'User-Agent': userAgent,
           'X-Forwarded-For': clientIp,
           'X-Real-IP': clientIp,
         },
-        body: JSON.stringify(normalizedPayload),
+        body: JSON.stringify(upstreamBody),
       });
 
       let data: unknown;
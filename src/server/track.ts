@@ -1,6 +1,7 @@
 import type { NextRequest } from 'next/server';
-import type { EventData } from '../types';
-import { resolveSessionVisitorIds } from './identity';
+import { createRedactor } from '../redact';
+import type { EventData, RedactConfig } from '../types';
+import { resolveRequestIds } from './identity';
 
 interface ServerTrackConfig {
   /** Entrolytics host URL */
@@ -13,10 +14,12 @@ interface ServerTrackConfig {
   linkId?: string;
   /** @deprecated Not supported by collect contract */
   pixelId?: string;
-  /** Optional stable session ID */
+  /** Optional stable session ID (defaults to the identity cookie) */
   sessionId?: string;
-  /** Optional stable visitor ID */
+  /** Optional stable visitor ID (defaults to the identity cookie) */
   visitorId?: string;
+  /** Scrub personal data from the URL, referrer and event data (default: false) */
+  redact?: RedactConfig | boolean;
 }
 
 interface ServerTrackOptions {
@@ -156,7 +159,7 @@ export async function trackServerEvent(
 
   const baseUrl = host.replace(/\/$/, '');
   const metadata = extractRequestMetadata(request);
-  const { sessionId, visitorId } = resolveSessionVisitorIds(config);
+  const { sessionId, visitorId } = await resolveRequestIds(config, request);
 
   const payloadProperties: EventData = {
     ...data,
@@ -168,8 +171,12 @@ export async function trackServerEvent(
   payloadProperties.hostname = metadata.hostname;
   payloadProperties.language = metadata.language;
 
-  const eventUrl = toAbsoluteUrl(url || metadata.requestUrl || '/', request, metadata.hostname);
-  const eventReferrer = toValidReferrer(referrer || metadata.referrer);
+  const redactor = createRedactor(config.redact);
+  const absoluteUrl = toAbsoluteUrl(url || metadata.requestUrl || '/', request, metadata.hostname);
+  const eventUrl = redactor ? redactor.url(absoluteUrl) : absoluteUrl;
+  const validReferrer = toValidReferrer(referrer || metadata.referrer);
+  const eventReferrer = validReferrer && redactor ? redactor.url(validReferrer) : validReferrer;
+  const properties = redactor ? redactor.data(payloadProperties) : payloadProperties;
 
   const payload = {
     websiteId,
@@ -179,7 +186,7 @@ export async function trackServerEvent(
     eventType: event ? 'custom_event' : 'pageview',
     ...(event && { eventName: event }),
     ...(eventReferrer && { referrer: eventReferrer }),
-    ...(Object.keys(payloadProperties).length > 0 && { properties: payloadProperties }),
+    ...(Object.keys(properties).length > 0 && { properties }),
   };
 
   try {
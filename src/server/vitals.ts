@@ -5,8 +5,10 @@ import type { NavigationType, VitalRating, VitalType } from '@entrolytics/shared
  * Receives vitals from client and forwards to Entrolytics
  */
 
+import { createRedactor, type Redactor } from '../redact';
+import type { RedactConfig } from '../types';
 import { detectDeployment } from './deployment';
-import { resolveSessionVisitorIds } from './identity';
+import { resolveRequestIds } from './identity';
 
 // Declare process for environments where it exists
 
@@ -42,10 +44,23 @@ export interface TrackVitalsConfig {
   apiKey: string;
   /** Website ID */
   websiteId: string;
-  /** Optional stable session ID */
+  /** Optional stable session ID (defaults to the identity cookie) */
   sessionId?: string;
-  /** Optional stable visitor ID */
+  /** Optional stable visitor ID (defaults to the identity cookie) */
   visitorId?: string;
+  /** Scrub personal data from page URLs and attribution data (default: false) */
+  redact?: RedactConfig | boolean;
+}
+
+function redactVital(vital: WebVitalPayload, redactor?: Redactor): WebVitalPayload {
+  if (!redactor) return vital;
+
+  return {
+    ...vital,
+    ...(vital.url && { url: redactor.url(vital.url) }),
+    ...(vital.path && { path: redactor.url(vital.path) }),
+    ...(vital.attribution && { attribution: redactor.data(vital.attribution) }),
+  };
 }
 
 /**
@@ -77,7 +92,8 @@ export async function trackServerVital(
 ): Promise<{ ok: boolean; error?: string }> {
   const { host, websiteId, apiKey } = config;
   const baseUrl = host.replace(/\/$/, '');
-  const { sessionId, visitorId } = resolveSessionVisitorIds(config);
+  const { sessionId, visitorId } = await resolveRequestIds(config);
+  const { attribution, url, path } = redactVital(vital, createRedactor(config.redact));
 
   // Auto-detect deployment info
   const deployment = detectDeployment();
@@ -94,9 +110,9 @@ export async function trackServerVital(
     delta: vital.delta,
     id: vital.id,
     navigationType: vital.navigationType,
-    attribution: vital.attribution,
-    url: vital.url,
-    path: vital.path,
+    attribution,
+    url,
+    path,
     // Add deployment info if available
     deployId: deployment.deployId,
   };
@@ -133,7 +149,8 @@ export async function trackServerVitalsBatch(
 ): Promise<{ ok: boolean; error?: string }> {
   const { host, websiteId, apiKey } = config;
   const baseUrl = host.replace(/\/$/, '');
-  const { sessionId, visitorId } = resolveSessionVisitorIds(config);
+  const { sessionId, visitorId } = await resolveRequestIds(config);
+  const redactor = createRedactor(config.redact);
 
   // Auto-detect deployment info
   const deployment = detectDeployment();
@@ -143,7 +160,7 @@ export async function trackServerVitalsBatch(
     sessionId,
     visitorId,
     vitals: vitals.map(v => ({
-      ...v,
+      ...redactVital(v, redactor),
       metricName: v.metric,
       metricValue: v.value,
       deployId: deployment.deployId,
@@ -50,11 +50,90 @@ export interface RevenuePayload extends EventPayload {
 
 export type PayloadType = 'event' | 'identify';
 
+/** Maps event names to the shape of their data, `undefined` marks events without data */
+export type EventMap = Record<string, EventData | undefined>;
+
+/** Event map used when no tracking plan is given, any name with optional data */
+export type DefaultEventMap = Record<string, EventData | undefined>;
+
+export type EventName<E extends EventMap> = keyof E & string;
+
+/** Data argument of an event, optional when the event allows `undefined` */
+export type EventArgs<E extends EventMap, K extends EventName<E>> = undefined extends E[K]
+  ? [data?: E[K]]
+  : [data: E[K]];
+
+export type PropertyType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+/** Property that only accepts the listed values */
+export interface PropertySpec {
+  type: PropertyType;
+  /** Allowed values, anything else is reported as a mismatch */
+  enum: readonly (string | number | boolean)[];
+  /** The property may be omitted (default: false) */
+  optional?: boolean;
+}
+
+/** Property types by key, a trailing `?` marks the property as optional */
+export type EventDataSchema = Record<string, PropertyType | `${PropertyType}?` | PropertySpec>;
+
+/** Runtime tracking plan, events missing from it are reported as unplanned */
+export type EventSchema<E extends EventMap = DefaultEventMap> = {
+  [K in EventName<E>]?: EventDataSchema;
+};
+
+/** 'local' keeps IDs in web storage, 'none' keeps nothing on the device */
+export type StorageMode = 'local' | 'none';
+
+export type ConsentStatus = 'pending' | 'granted' | 'denied';
+
+export type ConsentCategory = 'analytics' | 'marketing';
+
+/** Consent per category: analytics gates page views and events, marketing gates revenue and attribution */
+export type ConsentState = Record<ConsentCategory, ConsentStatus>;
+
 export type BeforeSendCallback = (
   type: PayloadType,
   payload: EventPayload | IdentifyPayload,
 ) => EventPayload | IdentifyPayload | null | undefined;
 
+/** A payload passing through the plugin chain */
+export type PluginPayload = EventPayload | IdentifyPayload;
+
+/** A plugin method as exposed on the context, its arguments are not checked */
+export type PluginMethod = (...args: unknown[]) => unknown;
+
+export interface PluginApi {
+  /** Returns the current context value, call it each time rather than keeping the result */
+  getContext: () => EntrolyticsContextValue;
+  /** Debug logger, prints only when `debug` is enabled */
+  log: (...args: unknown[]) => void;
+}
+
+export interface EntrolyticsPlugin {
+  /** Plugin name used in debug logs */
+  name: string;
+  /** Add data to a payload. Runs first, in plugin order */
+  enrich?: (payload: PluginPayload, type: PayloadType) => PluginPayload | Promise<PluginPayload>;
+  /** Return false to drop the event. Runs after every enrich stage */
+  filter?: (payload: PluginPayload, type: PayloadType) => boolean | Promise<boolean>;
+  /** Rewrite a payload, or return null to drop it. Runs last; `beforeSend` is the final transform */
+  transform?: (
+    payload: PluginPayload,
+    type: PayloadType,
+  ) => PluginPayload | null | undefined | Promise<PluginPayload | null | undefined>;
+  /** Called when the provider mounts, may return a cleanup function */
+  onInit?: (api: PluginApi) => void | (() => void);
+  /** Called after a page view is queued */
+  onPageView?: (payload: EventPayload) => void;
+  /** Called after an identify call is queued */
+  onIdentify?: (payload: IdentifyPayload) => void;
+  /** Called with the number of delivered events after a queue flush */
+  onFlush?: (delivered: number) => void;
+  /** Extra methods exposed on the context as `methods`, called with the plugin API first */
+  methods?: Record<string, (api: PluginApi, ...args: never[]) => unknown>;
+}
+
 export interface EntrolyticsConfig {
   /** Your Entrolytics website ID (required - use one of: websiteId, linkId, or pixelId) */
   websiteId?: string;
@@ -80,7 +159,7 @@ export interface EntrolyticsConfig {
   respectDoNotTrack?: boolean;
   /** Disable tracking on localhost */
   ignoreLocalhost?: boolean;
-  /** Transform or cancel events before sending */
+  /** Transform or cancel events before sending, runs after all plugins */
   beforeSend?: BeforeSendCallback;
   /** Automatically track outbound link clicks */
   trackOutboundLinks?: boolean;
@@ -94,6 +173,220 @@ export interface EntrolyticsConfig {
   debug?: boolean;
   /** Use edge runtime endpoints for faster response times (default: true) */
   useEdgeRuntime?: boolean;
+  /** Number of buffered events that triggers a flush (default: 10) */
+  queueSize?: number;
+  /** Milliseconds between automatic queue flushes (default: 5000) */
+  flushInterval?: number;
+  /** Maximum request body size in bytes for a single batch (default: 60000) */
+  maxPayloadBytes?: number;
+  /** Persist events that fail to send or are tracked offline and replay them later (default: true) */
+  outbox?: OutboxConfig | boolean;
+  /**
+   * Consent for all or individual categories (default: 'granted'). Granted or denied
+   * categories win over the stored decision, and changes apply like `setConsent`.
+   */
+  consent?: ConsentStatus | Partial<ConsentState>;
+  /**
+   * Client storage mode (default: 'local'). With 'none' no identifier is persisted,
+   * the session ID lives in memory and the proxy derives a daily rotating visitor hash.
+   * Requires `proxy`, without it nothing is sent.
+   */
+  storage?: StorageMode;
+  /**
+   * Milliseconds of inactivity after which a new session starts (default: 30 minutes).
+   * Sessions also rotate on a new UTM campaign and at local midnight.
+   */
+  sessionTimeout?: number;
+  /**
+   * Parent domain for the identity cookies, e.g. `.example.com`, so subdomains share
+   * one visitor. The existing localStorage visitor ID is migrated on first use.
+   */
+  cookieDomain?: string;
+  /** Also share the session ID on `cookieDomain` (default: false) */
+  shareSession?: boolean;
+  /**
+   * Domains whose links get a short-lived token carrying the visitor and session IDs,
+   * so the journey continues on sites that also run the provider. The token is only
+   * checksummed, anyone can craft one, unless `proxy.signLinks` has the proxy sign it.
+   */
+  linkDomains?: string[];
+  /** Scrub personal data from URLs, referrers and event data before sending (default: false) */
+  redact?: RedactConfig | boolean;
+  /**
+   * Plugins run in order on every event before it is queued. Define them outside
+   * the component or memoize them, a new array re-initializes every plugin.
+   */
+  plugins?: EntrolyticsPlugin[];
+  /** Keep properties added with `register` across page reloads (default: false) */
+  persistSuperProperties?: boolean;
+  /** Tracking plan checked in development, mismatching events log a console warning */
+  eventSchema?: EventSchema;
+  /**
+   * Send only a share of events, decided per visitor so funnels stay consistent.
+   * Sampled events carry their rate as the `sampleRate` property.
+   */
+  sampling?: SamplingConfig;
+  /** Drop events once one name is tracked too often in a short window (default: 20 per second) */
+  rateLimit?: RateLimitConfig | false;
+  /**
+   * Measure engaged time, counted while the tab is visible and the visitor is active, and
+   * send it as `engagedMs` on a `page_leave` event when they navigate away (default: false)
+   */
+  trackEngagement?: EngagementConfig | boolean;
+  /** Send `scroll_depth` events as readers scroll through each page (default: false) */
+  trackScrollDepth?: ScrollDepthConfig | boolean;
+  /**
+   * Send uncaught errors and unhandled promise rejections as `js_error` events, each
+   * distinct error once per session (default: false)
+   */
+  trackErrors?: ErrorTrackingConfig | boolean;
+  /** Send `rage_click` and `dead_click` events with a CSS selector for the element (default: false) */
+  trackFrustration?: FrustrationConfig | boolean;
+  /**
+   * Route templates such as `/blog/[slug]`, page views carry the matching one as `route`
+   * (default: the manifest `withEntrolytics` builds from the app and pages directories)
+   */
+  routes?: string[];
+  /** Send the route template instead of the real path in every event URL (default: false) */
+  maskDynamicSegments?: boolean;
+  /**
+   * More websites every event is also sent to, such as a roll-up across brand sites.
+   * The provider's own `websiteId` is the destination named `default`.
+   */
+  destinations?: Destination[];
+  /**
+   * Conversions sent as `goal` events when a page, click, form submission or event
+   * matches, or the URL of a route serving them as JSON, such as one made with
+   * `createGoalsHandler`
+   */
+  goals?: GoalDefinition[] | string;
+}
+
+export interface GoalDefinition {
+  /** Goal ID, sent as `goalId` */
+  id: string;
+  /** Value sent with the goal, such as the worth of a conversion */
+  value?: number;
+  /** Send the goal at most once per session or once per page view (default: 'session') */
+  once?: 'session' | 'pageview';
+  /** Page views whose path matches this pattern, `*` matches any characters */
+  url?: string;
+  /** Clicks on an element matching this CSS selector */
+  click?: string;
+  /** Submissions of a form matching this CSS selector */
+  submit?: string;
+  /** Custom events with this name */
+  event?: string;
+  /** Conditions on the event data that must all hold, used with `event` */
+  where?: GoalCondition[];
+}
+
+export interface GoalCondition {
+  /** Event data key */
+  property: string;
+  /** Comparison with `value` (default: 'eq') */
+  operator?: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'exists';
+  /** Value to compare with, not needed for `exists` */
+  value?: string | number | boolean;
+}
+
+export interface Destination {
+  /** Name that targets this destination with `useEntrolytics(name)` */
+  name: string;
+  /** Website the events are recorded under */
+  websiteId: string;
+  /** Collection API key (default: the provider's `apiKey`) */
+  apiKey?: string;
+  /** Analytics host (default: the provider's endpoint) */
+  host?: string;
+  /** Sampling for this destination only, the provider's `sampling` does not apply */
+  sampling?: SamplingConfig;
+  /** Return false to keep an event from this destination, not called for targeted calls */
+  filter?: (payload: PluginPayload, type: PayloadType) => boolean;
+}
+
+export interface ExperimentConfig {
+  /** Variant names, the first is usually the control */
+  variants: string[];
+  /** Relative traffic share of each variant, in the same order (default: an even split) */
+  weights?: number[];
+}
+
+export interface FrustrationConfig {
+  /** Clicks in one spot that make a rage click, 0 disables rage clicks (default: 3) */
+  rageClickCount?: number;
+  /** Milliseconds the rage clicks must fall within (default: 1000) */
+  rageClickWindow?: number;
+  /** Maximum distance in pixels between rage clicks (default: 30) */
+  rageClickRadius?: number;
+  /**
+   * Milliseconds without a DOM change, navigation or request after which a click on an
+   * interactive element is dead, 0 disables dead clicks (default: 1000)
+   */
+  deadClickTimeout?: number;
+}
+
+export interface ErrorTrackingConfig {
+  /** Skip errors whose message contains one of these strings or matches one of these patterns */
+  ignore?: (string | RegExp)[];
+  /** Maximum error events per minute (default: 10) */
+  maxPerMinute?: number;
+  /** Deployment the errors belong to (default: NEXT_PUBLIC_ENTROLYTICS_DEPLOYMENT_ID, set by `withEntrolytics`) */
+  deploymentId?: string;
+}
+
+export interface ScrollDepthConfig {
+  /** Scroll percentages that send an event, once per page view (default: [25, 50, 75, 100]) */
+  thresholds?: number[];
+}
+
+export interface EngagementConfig {
+  /** Milliseconds after the last interaction that still count as engaged (default: 30000) */
+  idleTimeout?: number;
+  /** Send a `page_heartbeat` event this often while the visitor is engaged, 0 disables it (default: 0) */
+  heartbeatInterval?: number;
+}
+
+export interface SamplingConfig {
+  /** Share of page views to send, from 0 to 1 (default: 1) */
+  pageview?: number;
+  /** Share of custom events to send (default: 1) */
+  event?: number;
+  /** Rates for individual event names, these override `event` */
+  events?: Record<string, number>;
+}
+
+export interface RateLimitConfig {
+  /** Maximum events with the same name per window (default: 20) */
+  limit?: number;
+  /** Window length in milliseconds (default: 1000) */
+  window?: number;
+}
+
+export interface OutboxConfig {
+  /** Drop stored events older than this many milliseconds (default: 24 hours) */
+  maxAge?: number;
+  /** Maximum number of stored events, the oldest are dropped first (default: 500) */
+  maxEvents?: number;
+}
+
+/** Built-in personal data detectors */
+export type RedactDetector = 'email' | 'phone' | 'jwt' | 'creditCard';
+
+/** A custom redaction rule, either a pattern to replace or a function rewriting a string */
+export type RedactRule = { pattern: RegExp; replacement?: string } | ((value: string) => string);
+
+export interface RedactConfig {
+  /** Query parameters whose values are always replaced (default: common token and credential names) */
+  denyParams?: string[];
+  /** Only keep the values of these query parameters and replace all others */
+  allowParams?: string[];
+  /** Detectors applied to URLs and event data values (default: all) */
+  detectors?: RedactDetector[];
+  /** Extra rules applied after the detectors */
+  rules?: RedactRule[];
+  /** Replacement for redacted values (default: '[redacted]') */
+  placeholder?: string;
 }
 
 export interface ProxyConfig {
@@ -105,6 +398,11 @@ export interface ProxyConfig {
   collectPath?: string;
   /** Proxy mode: 'direct' passes through, 'cloak' hides websiteId server-side */
   mode?: 'direct' | 'cloak';
+  /**
+   * Have the proxy sign and verify `linkDomains` tokens with an HMAC, requires
+   * `linkerSecret` on `createProxyHandler` on every linked domain (default: false)
+   */
+  signLinks?: boolean;
 }
 
 export interface TrackOptions {
@@ -146,11 +444,14 @@ export interface UsePageViewOptions {
   enabled?: boolean;
 }
 
-export interface TrackEventProps {
+export interface TrackEventProps<
+  E extends EventMap = DefaultEventMap,
+  K extends EventName<E> = EventName<E>,
+> {
   /** Event name */
-  name: string;
+  name: K;
   /** Event data */
-  data?: EventData;
+  data?: E[K];
   /** Trigger type: 'click' (default), 'visible', 'submit' */
   trigger?: 'click' | 'visible' | 'submit';
   /** Only track once */
@@ -173,12 +474,46 @@ export interface OutboundLinkProps extends Omit<
   children: React.ReactNode;
 }
 
-export interface EntrolyticsContextValue {
+export interface EntrolyticsErrorBoundaryProps {
+  /** Rendered instead of the children after an error, a function also receives a reset callback */
+  fallback?: React.ReactNode | ((error: Error, reset: () => void) => React.ReactNode);
+  /** Additional event data */
+  data?: EventData;
+  /** Called after the error is reported */
+  onError?: (error: Error, componentStack?: string) => void;
+  /** Children elements */
+  children: React.ReactNode;
+}
+
+export interface ExperimentProps {
+  /** Experiment key, variants are read from the `name` of each `Variant` child */
+  name: string;
+  /** Relative traffic share of each `Variant` child, in order (default: an even split) */
+  weights?: number[];
+  /** Rendered until the variant is known, such as during server rendering */
+  fallback?: React.ReactNode;
+  /** `Variant` elements */
+  children: React.ReactNode;
+}
+
+export interface VariantProps {
+  /** Variant name */
+  name: string;
+  /** Rendered when the visitor is assigned this variant */
+  children: React.ReactNode;
+}
+
+/** The tracking functions `useEntrolytics(name)` scopes to one destination */
+export type DestinationMethods<E extends EventMap = DefaultEventMap> = Pick<
+  EntrolyticsContextValue<E>,
+  'track' | 'trackView' | 'identify' | 'trackRevenue' | 'trackOutboundLink'
+>;
+
+export interface EntrolyticsContextValue<E extends EventMap = DefaultEventMap> {
   /** Track an event or page view */
   track: {
     (): Promise<void>;
-    (eventName: string): Promise<void>;
-    (eventName: string, data: EventData): Promise<void>;
+    <K extends EventName<E>>(eventName: K, ...args: EventArgs<E, K>): Promise<void>;
     (payload: Partial<EventPayload>): Promise<void>;
     (fn: (props: TrackedProperties) => EventPayload): Promise<void>;
   };
@@ -196,10 +531,33 @@ export interface EntrolyticsContextValue {
   trackOutboundLink: (url: string, data?: EventData) => Promise<void>;
   /** Set the current tag */
   setTag: (tag: string) => void;
+  /** Attach properties to every subsequent event, overwriting existing keys */
+  register: (properties: EventData) => void;
+  /** Attach properties to every subsequent event, keeping keys that are already registered */
+  registerOnce: (properties: EventData) => void;
+  /** Stop attaching a registered property */
+  unregister: (key: string) => void;
+  /** Update consent, releasing or discarding events held while pending */
+  setConsent: {
+    (status: ConsentStatus): void;
+    (consent: Partial<ConsentState>): void;
+  };
+  /** Send all queued events immediately */
+  flush: () => Promise<void>;
+  /** Report an error as a `js_error` event, deduplicated per session like captured errors */
+  trackError: (error: unknown, data?: EventData) => Promise<void>;
+  /** Subscribe to client-side navigations to a new URL, returns an unsubscribe function */
+  onNavigate: (listener: (url: string) => void) => () => void;
+  /** Tracking functions that send to the named destination only */
+  forDestination: (name: string) => DestinationMethods;
+  /** Extra methods registered by plugins */
+  methods: Record<string, PluginMethod>;
   /** Generate enhanced identity data with browser metadata */
   generateEnhancedIdentity: (
     data?: Record<string, string | number | boolean | undefined>,
   ) => EnhancedIdentityData;
+  /** Current consent per category */
+  consent: ConsentState;
   /** Whether the tracker is ready */
   isReady: boolean;
   /** Whether tracking is enabled */
@@ -31,4 +31,15 @@ export default defineConfig([
     outDir: 'dist/plugin',
     external: ['react', 'react-dom', 'next'],
   },
+  // Tracking plan codegen CLI
+  {
+    entry: ['src/cli/index.ts'],
+    format: ['esm'],
+    platform: 'node',
+    outDir: 'dist/cli',
+    external: ['yaml'],
+    banner: {
+      js: '#!/usr/bin/env node',
+    },
+  },
 ]);